@@ -0,0 +1,133 @@
+/**
+ * Minimal view of the Civet AST as returned by `compile(src, { ast: "raw" })`.
+ * Raw ASTs keep `parent` pointers and always store `children` as arrays,
+ * which is what the editor features built on top of them rely on.
+ */
+export interface CivetNode {
+  type?: string
+  token?: string
+  $loc?: { pos: number, length: number }
+  children?: CivetChild[]
+  parent?: CivetNode
+  [key: string]: unknown
+}
+
+export type CivetChild = CivetNode | string | undefined | null | CivetChild[]
+
+/**
+ * A node that was produced directly from a span of the source.
+ */
+export interface CivetLeaf extends CivetNode {
+  $loc: { pos: number, length: number }
+}
+
+export function isNode(node: unknown): node is CivetNode {
+  return node != null && typeof node === "object" && !Array.isArray(node)
+}
+
+/**
+ * Visit every node reachable through `children`, depth first, parents before children.
+ * Nodes shared between several parents (refs, chained comparisons) are only visited once.
+ * Return `false` from `fn` to skip the children of a node.
+ */
+export function walk(root: CivetChild, fn: (node: CivetNode) => boolean | void) {
+  const seen = new Set<CivetNode>()
+
+  function recurse(node: CivetChild) {
+    if (node == null || typeof node === "string") return
+    if (Array.isArray(node)) {
+      node.forEach(recurse)
+      return
+    }
+    if (seen.has(node)) return
+    seen.add(node)
+
+    if (fn(node) === false) return
+    if (node.children) recurse(node.children)
+  }
+
+  recurse(root)
+}
+
+/**
+ * Collect the leaves that carry a source location, sorted by position.
+ */
+export function getLeaves(root: CivetChild): CivetLeaf[] {
+  const leaves: CivetLeaf[] = []
+  walk(root, (node) => {
+    // Same rule as `generate`: a node with `$loc` emits its token, not its children
+    if (!("$loc" in node)) return
+    if (node.$loc) leaves.push(node as CivetLeaf)
+    return false
+  })
+  return leaves.sort((a, b) => a.$loc.pos - b.$loc.pos)
+}
+
+/**
+ * Source span `[start, end)` of every node with source behind it, from its
+ * first to its last non-whitespace leaf. JSX tags aren't leaves, so JSX
+ * spans reach out to the tags around the leaves inside.
+ */
+export function getExtents(root: CivetChild, source: string): Map<CivetNode, [number, number]> {
+  const extents = new Map<CivetNode, [number, number]>()
+  const jsx: CivetNode[] = []
+  const seen = new Set<CivetNode>()
+
+  function recurse(node: CivetChild): [number, number] | undefined {
+    if (node == null || typeof node === "string") return
+    if (Array.isArray(node)) {
+      let extent: [number, number] | undefined
+      for (const child of node) {
+        const childExtent = recurse(child)
+        if (!childExtent) continue
+        extent = extent
+          ? [Math.min(extent[0], childExtent[0]), Math.max(extent[1], childExtent[1])]
+          : childExtent
+      }
+      return extent
+    }
+    if (seen.has(node)) return extents.get(node)
+    seen.add(node)
+
+    if (node.type === "JSXElement" || node.type === "JSXFragment") jsx.push(node)
+
+    let extent: [number, number] | undefined
+    if ("$loc" in node) {
+      if (!node.$loc) return
+      const { pos, length } = node.$loc
+      const text = source.slice(pos, pos + length)
+      if (!text.trim()) return
+      extent = [pos + text.search(/\S/), pos + text.trimEnd().length]
+    } else if (node.children) {
+      extent = recurse(node.children)
+    }
+    if (extent) extents.set(node, extent)
+    return extent
+  }
+
+  recurse(root)
+
+  // The tags are in the source between the element's leaves (even just
+  // whitespace) and the leaves around it
+  const leaves = getLeaves(root).filter(({ $loc }) => $loc.length)
+  for (const node of jsx) {
+    const inner = getLeaves(node).filter(({ $loc }) => $loc.length)
+    if (!inner.length) continue
+    const first = inner[0]!.$loc.pos
+    const last = Math.max(...inner.map(({ $loc }) => $loc.pos + $loc.length))
+    const before = Math.max(0, ...leaves
+      .map(({ $loc }) => $loc.pos + $loc.length)
+      .filter((end) => end <= first))
+    const after = leaves.find(({ $loc }) => $loc.pos >= last)?.$loc.pos ?? source.length
+
+    const [start, end] = extents.get(node) ?? [first, last]
+    const open = source.indexOf("<", before)
+    const close = source.lastIndexOf(">", after - 1)
+    extents.set(node, [
+      open >= 0 && open < start ? open : start,
+      close >= end ? close + 1 : end,
+    ])
+  }
+
+  return extents
+}
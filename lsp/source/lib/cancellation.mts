@@ -0,0 +1,94 @@
+import { randomBytes } from "crypto"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import type {
+  AbstractCancellationTokenSource,
+  CancellationId,
+  CancellationReceiverStrategy,
+  CancellationSenderStrategy,
+  CancellationToken,
+} from "vscode-languageserver"
+
+/*
+ * Cancellation through the file system, as tsserver and VS Code's TypeScript
+ * extension do it. A `$/cancelRequest` message is only read between event loop
+ * turns, so it can't stop a language service call that's already running.
+ * The client also writes a file per cancelled request, which the server's
+ * tokens check for while TypeScript polls them.
+ */
+
+/** Server argument naming the folder of cancellation files */
+const argumentPrefix = "--cancellationReceive=file:"
+
+/** A new, unique folder for a client's cancellation files */
+export function createCancellationFolder(): string {
+  return path.join(os.tmpdir(), `civet-lsp-cancellation-${randomBytes(8).toString("hex")}`)
+}
+
+/** Server arguments telling it to check `folder` for cancellations */
+export function getCancellationArguments(folder: string): string[] {
+  return [argumentPrefix + folder]
+}
+
+/** Folder of cancellation files the server was started with, if any */
+export function getCancellationFolder(argv: readonly string[]): string | undefined {
+  return argv.find((arg) => arg.startsWith(argumentPrefix))?.slice(argumentPrefix.length)
+}
+
+function getCancellationFile(folder: string, id: CancellationId): string {
+  return path.join(folder, `cancellation-${String(id)}.tmp`)
+}
+
+/**
+ * Client side: write a request's cancellation file before sending the usual
+ * `$/cancelRequest` message, and remove it once the request is done.
+ */
+export function fileCancellationSender(folder: string, message: CancellationSenderStrategy): CancellationSenderStrategy {
+  return {
+    async sendCancellation(connection, id) {
+      try {
+        fs.mkdirSync(folder, { recursive: true })
+        fs.writeFileSync(getCancellationFile(folder, id), "")
+      } catch {
+        // The message still gets through, just later
+      }
+      return message.sendCancellation(connection, id)
+    },
+    cleanup(id) {
+      fs.rmSync(getCancellationFile(folder, id), { force: true })
+      message.cleanup(id)
+    },
+    dispose() {
+      fs.rmSync(folder, { recursive: true, force: true })
+      message.dispose?.()
+    },
+  }
+}
+
+/**
+ * Server side: tokens cancelled by a `$/cancelRequest` message as usual, or
+ * as soon as the request's cancellation file exists.
+ */
+export function fileCancellationReceiver(folder: string, message: CancellationReceiverStrategy): CancellationReceiverStrategy {
+  return {
+    kind: "id",
+    createCancellationTokenSource(id): AbstractCancellationTokenSource {
+      const source = message.createCancellationTokenSource(id)
+      const file = getCancellationFile(folder, id)
+      let cancelled = false
+      const token: CancellationToken = {
+        get isCancellationRequested() {
+          if (!cancelled) cancelled = source.token.isCancellationRequested || fs.existsSync(file)
+          return cancelled
+        },
+        onCancellationRequested: source.token.onCancellationRequested,
+      }
+      return {
+        token,
+        cancel: () => source.cancel(),
+        dispose: () => source.dispose(),
+      }
+    },
+  }
+}
@@ -0,0 +1,229 @@
+import ts from 'typescript';
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  MarkupKind,
+  type CompletionItem,
+  type Diagnostic,
+  type Hover,
+  type Position,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { ParseOptionSpec } from '@danielx/civet';
+
+// What Civet knows about its parse options, for versions that export it
+export interface CivetOptions {
+  parseOptionSpecs: Record<string, ParseOptionSpec>
+  normalizeOptionName(name: string): string
+  checkConfigOption(name: string, value: unknown): string | undefined
+}
+
+// JSON config files `findConfig` from `@danielx/civet/config` looks for
+export const civetConfigFile = /(?:^|[\\/])\.?(?:🐈|civetconfig|civet\.config|package)\.json$/
+
+// Comments, directives and other strings at the top of a file
+const prologueItem = /\s*(?:#![^\n]*|\/\/[^\n]*|\/\*[^]*?\*\/|(["'])((?:(?!\1)[^\\\n])*)\1;?)/y
+const directiveOption = /[+-]?([a-zA-Z0-9-]+)(=\S*)?/g
+
+function getSpec(civetOptions: CivetOptions, name: string): ParseOptionSpec | undefined {
+  const { parseOptionSpecs } = civetOptions
+  return Object.prototype.hasOwnProperty.call(parseOptionSpecs, name) ? parseOptionSpecs[name] : undefined
+}
+
+function describeOption(name: string, spec: ParseOptionSpec): string {
+  const lines = [`\`${name}\`: \`${spec.type}\``, spec.description]
+  if (spec.default !== undefined) lines.push(`Default: \`${spec.default}\``)
+  return lines.join("\n\n")
+}
+
+function optionCompletions(civetOptions: CivetOptions, quote = ""): CompletionItem[] {
+  return Object.entries(civetOptions.parseOptionSpecs).map(([name, spec]) => ({
+    label: name,
+    kind: CompletionItemKind.Property,
+    detail: spec.type,
+    documentation: { kind: MarkupKind.Markdown, value: describeOption(name, spec) },
+    insertText: quote + name + quote,
+  }))
+}
+
+/** Offsets of the text of each `"civet ..."` directive in a `.civet` file */
+function findDirectives(source: string): [number, number][] {
+  const directives: [number, number][] = []
+  prologueItem.lastIndex = 0
+  let match
+  while ((match = prologueItem.exec(source)) && match[0]) {
+    const text = match[2]
+    if (text !== undefined && /^civet(?:\s|$)/.test(text)) {
+      const end = match.index + match[0].lastIndexOf(match[1]!)
+      directives.push([end - text.length, end])
+    }
+  }
+  return directives
+}
+
+/** The option under the cursor in a `"civet ..."` directive */
+function findDirectiveOption(document: TextDocument, position: Position) {
+  const source = document.getText()
+  const offset = document.offsetAt(position)
+  const directive = findDirectives(source).find(([start, end]) => start + "civet".length < offset && offset <= end)
+  if (!directive) return
+
+  const [start, end] = directive
+  const text = source.slice(start, end)
+  for (const match of text.matchAll(directiveOption)) {
+    const nameStart = start + match.index + match[0].length - match[1]!.length - (match[2]?.length ?? 0)
+    const nameEnd = nameStart + match[1]!.length
+    const matchEnd = start + match.index + match[0].length
+    // Skip `civet` itself
+    if (match.index === 0) continue
+    if (offset < nameStart - 1 || offset > matchEnd) continue
+    return { name: match[1]!, nameStart, nameEnd, inValue: offset > nameEnd }
+  }
+  // Between options
+  return { name: "", nameStart: offset, nameEnd: offset, inValue: false }
+}
+
+/**
+ * Completions of option names within a `"civet ..."` directive,
+ * or undefined if the cursor isn't in one.
+ */
+export function getDirectiveCompletions(civetOptions: CivetOptions, document: TextDocument, position: Position): CompletionItem[] | undefined {
+  const option = findDirectiveOption(document, position)
+  if (!option) return
+  if (option.inValue) return []
+
+  const range = { start: document.positionAt(option.nameStart), end: document.positionAt(option.nameEnd) }
+  return optionCompletions(civetOptions).map((item) => ({
+    ...item,
+    textEdit: { range, newText: item.insertText! },
+  }))
+}
+
+/** Documentation of the option under the cursor in a `"civet ..."` directive */
+export function getDirectiveHover(civetOptions: CivetOptions, document: TextDocument, position: Position): Hover | undefined {
+  const option = findDirectiveOption(document, position)
+  if (!option?.name) return
+
+  const name = civetOptions.normalizeOptionName(option.name)
+  const spec = getSpec(civetOptions, name)
+  if (!spec) return
+  return {
+    contents: { kind: MarkupKind.Markdown, value: describeOption(name, spec) },
+    range: { start: document.positionAt(option.nameStart), end: document.positionAt(option.nameEnd) },
+  }
+}
+
+// Config files
+
+function getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && ts.isStringLiteral(property.name) && property.name.text === name) {
+      return property.initializer
+    }
+  }
+  return
+}
+
+/** The `parseOptions` object of a JSON config file, maybe within `civetConfig` */
+function findParseOptions(sourceFile: ts.JsonSourceFile): ts.ObjectLiteralExpression | undefined {
+  const root = sourceFile.statements[0]?.expression
+  if (!root || !ts.isObjectLiteralExpression(root)) return
+
+  let config: ts.Expression | undefined = getProperty(root, "civetConfig")
+  // The rest of package.json isn't Civet config
+  if (!config && /package\.json$/.test(sourceFile.fileName)) return
+  config ??= root
+  if (!ts.isObjectLiteralExpression(config)) return
+
+  const parseOptions = getProperty(config, "parseOptions")
+  return parseOptions && ts.isObjectLiteralExpression(parseOptions) ? parseOptions : undefined
+}
+
+function parseConfigFile(document: TextDocument) {
+  const sourceFile = ts.parseJsonText(document.uri, document.getText())
+  return { sourceFile, parseOptions: findParseOptions(sourceFile) }
+}
+
+/**
+ * Completions of option names for keys of `parseOptions` in a JSON config
+ * file, or undefined if the cursor isn't at one.
+ */
+export function getConfigCompletions(civetOptions: CivetOptions, document: TextDocument, position: Position): CompletionItem[] | undefined {
+  const { sourceFile, parseOptions } = parseConfigFile(document)
+  if (!parseOptions) return
+
+  const offset = document.offsetAt(position)
+  if (offset <= parseOptions.getStart(sourceFile) || offset >= parseOptions.end) return
+
+  for (const property of parseOptions.properties) {
+    if (offset < property.getStart(sourceFile) || offset > property.end) continue
+    // Within the value
+    if (!ts.isPropertyAssignment(property) || !ts.isStringLiteral(property.name) || offset > property.name.end) return
+
+    // Replace the quoted key
+    const { name } = property
+    const range = { start: document.positionAt(name.getStart(sourceFile)), end: document.positionAt(name.end) }
+    return optionCompletions(civetOptions, '"').map((item) => ({
+      ...item,
+      textEdit: { range, newText: item.insertText! },
+    }))
+  }
+
+  // Between keys
+  return optionCompletions(civetOptions, '"')
+}
+
+/** Documentation of the `parseOptions` key under the cursor in a JSON config file */
+export function getConfigHover(civetOptions: CivetOptions, document: TextDocument, position: Position): Hover | undefined {
+  const { sourceFile, parseOptions } = parseConfigFile(document)
+  if (!parseOptions) return
+
+  const offset = document.offsetAt(position)
+  for (const property of parseOptions.properties) {
+    const { name } = property
+    if (!name || !ts.isStringLiteral(name)) continue
+    if (offset < name.getStart(sourceFile) || offset > name.end) continue
+
+    const spec = getSpec(civetOptions, name.text)
+    if (!spec) return
+    return {
+      contents: { kind: MarkupKind.Markdown, value: describeOption(name.text, spec) },
+      range: { start: document.positionAt(name.getStart(sourceFile)), end: document.positionAt(name.end) },
+    }
+  }
+  return
+}
+
+/**
+ * Unknown options and values of the wrong type in the `parseOptions` of a
+ * JSON config file. Syntax errors are left to the config loader.
+ */
+export function getConfigDiagnostics(civetOptions: CivetOptions, document: TextDocument): Diagnostic[] {
+  try {
+    JSON.parse(document.getText())
+  } catch (e) {
+    return []
+  }
+  const { sourceFile, parseOptions } = parseConfigFile(document)
+  if (!parseOptions) return []
+
+  const diagnostics: Diagnostic[] = []
+  for (const property of parseOptions.properties) {
+    if (!ts.isPropertyAssignment(property) || !ts.isStringLiteral(property.name)) continue
+
+    const value = JSON.parse(property.initializer.getText(sourceFile))
+    const message = civetOptions.checkConfigOption(property.name.text, value)
+    if (!message) continue
+
+    // Unknown options are just ignored
+    const known = getSpec(civetOptions, property.name.text)
+    const node = known ? property.initializer : property.name
+    diagnostics.push({
+      range: { start: document.positionAt(node.getStart(sourceFile)), end: document.positionAt(node.end) },
+      severity: known ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      source: "civet",
+      message,
+    })
+  }
+  return diagnostics
+}
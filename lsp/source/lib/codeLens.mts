@@ -0,0 +1,95 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getExtents, getLeaves, walk, type CivetChild, type CivetNode } from './ast.mjs';
+import { getPrologueEnd } from './textChanges.mjs';
+
+/** A `comptime` block, with the source offsets of its keyword and its end */
+export interface ComptimeBlock {
+  start: number
+  end: number
+  /** Source from the keyword to the end of the block (without any `else`) */
+  text: string
+  /** The file's shebang, comments and directives, which set how the block compiles */
+  prologue: string
+}
+
+// `x := 1`, as opposed to `const x = 1`: the `const ` is generated
+function isConstShorthand(declaration: CivetNode, source: string): boolean {
+  const decl = declaration.decl as CivetNode | undefined
+  return decl?.token === "const " && !!decl.$loc && !source.startsWith("const", decl.$loc.pos)
+}
+
+/**
+ * Source offsets of the names of exported functions and classes, and of
+ * module-level `:=` declarations, which get reference count lenses.
+ */
+export function getReferenceLensTargets(ast: CivetChild, source: string): number[] {
+  const names: CivetNode[] = []
+  walk(ast, (node) => {
+    if (node === ast || node.type === "ExportDeclaration") return
+    switch (node.type) {
+      case "FunctionExpression":
+      case "ClassExpression": {
+        // `id` is the name of `function f` and `class A`
+        const id = node.id as CivetNode | undefined
+        if (node.parent?.type === "ExportDeclaration" && id) names.push(id)
+        break
+      }
+      case "Declaration":
+        if (!isConstShorthand(node, source)) break
+        for (const binding of (node.bindings ?? []) as CivetNode[]) {
+          // Destructuring declares several names at once; only plain names get a lens
+          const pattern = binding.pattern as CivetNode | undefined
+          if (pattern?.type === "Identifier") names.push(pattern)
+        }
+        break
+    }
+    // Only module-level declarations
+    return false
+  })
+
+  const offsets = names.flatMap((name) => {
+    const leaf = getLeaves(name).find(({ token }) => token?.trim())
+    return leaf ? [leaf.$loc.pos] : []
+  })
+  return offsets.sort((a, b) => a - b)
+}
+
+/** Every `comptime` block in a document, in source order */
+export function getComptimeBlocks(ast: CivetChild, source: string): ComptimeBlock[] {
+  const document = TextDocument.create("", "civet", 0, source)
+  const prologue = source.slice(0, document.offsetAt(getPrologueEnd(document)))
+  const blocks: ComptimeBlock[] = []
+  walk(ast, (node) => {
+    // Raw ASTs keep the `then` block of statements, even when they have an
+    // `else`; `comptime` expressions wrap their block's contents in an IIFE
+    let body: CivetChild
+    if (node.type === "ComptimeStatement") body = node.then as CivetChild
+    else if (node.type === "ComptimeExpression") body = node.expression as CivetChild
+    else return
+
+    const extent = body && typeof body === "object" && !Array.isArray(body)
+      ? getExtents(body, source).get(body)
+      : undefined
+    if (!extent) return
+    const keyword = /\bcomptime\s*$/.exec(source.slice(0, extent[0]))
+    if (!keyword) return
+    const [start, end] = [keyword.index, extent[1]]
+    blocks.push({ start, end, text: source.slice(start, end), prologue })
+  })
+  return blocks.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * A program evaluating a `comptime` block on its own as its default export,
+ * for the compiler to replace with the block's value. It starts with the
+ * file's prologue, so the block compiles with the same directives.
+ */
+export function getComptimeProgram(block: ComptimeBlock): string {
+  // Later lines keep their indentation, which is deeper than the top level
+  return `${block.prologue}export default ${block.text}\n`
+}
+
+/** The serialized value from a compiled `getComptimeProgram` */
+export function getComptimeValue(code: string): string | undefined {
+  return /^\s*export default ([^]*?);?\s*$/.exec(code)?.[1] || undefined
+}
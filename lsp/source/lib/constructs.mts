@@ -0,0 +1,261 @@
+import type { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { getExtents, getLeaves, type CivetChild } from './ast.mjs';
+import type { SourcemapLines } from './util.mjs';
+
+interface Construct {
+  /** Global pattern for the construct within a line; the cursor has to be on the match */
+  pattern: RegExp
+  /** Markdown, or undefined if this match isn't the construct after all */
+  describe: (match: RegExpMatchArray, line: string) => string | undefined
+}
+
+const comparison = /<=?|>=?|[!=]==?|\bis(?: not)?\b|\bisnt\b/g
+// An operand between two comparisons, as in `a < b < c`
+const chainedOperand = /^\s*[\w$.@#'"]+\s*$/
+
+const reductions: Record<string, string> = {
+  some: "`true` if the body is truthy for some item, like `Array.prototype.some`",
+  every: "`true` if the body is truthy for every item, like `Array.prototype.every`",
+  count: "how many items the body is truthy for",
+  first: "the first body value, stopping the loop there",
+  sum: "the sum of the body values",
+  product: "the product of the body values",
+  min: "the smallest body value",
+  max: "the largest body value",
+  join: "the body values joined into a string",
+  concat: "the body values (arrays) concatenated into one array",
+}
+
+// Most specific first: the first construct matching at the cursor wins
+const constructs: Construct[] = [
+  {
+    pattern: /\|>=/g,
+    describe: () => "**Pipe assignment**: `x |>= f` is `x = f(x)`",
+  },
+  {
+    pattern: /\|>/g,
+    describe: () => "**Pipe**: `x |> f |> g` calls `g(f(x))`, reading left to right",
+  },
+  {
+    // `&.foo`, `&[0]` or `&` starting an argument, not `&&`, `&=` or bitwise `a & b`
+    pattern: /(?<!&)&(?=\.|\?\.|\[|\()|(?<=(?:^|[(,=:]|\|>)\s*)&(?=\s)/g,
+    describe: () => "**Placeholder function**: `&.foo` is `$ => $.foo`, and `& + 1` is `$ => $ + 1`",
+  },
+  {
+    pattern: /\bfor\s+(some|every|count|first|sum|product|min|max|join|concat)\b/g,
+    describe: ([, reduction]) => `**Reduction loop**: \`for ${reduction}\` evaluates to ${reductions[reduction!]}`,
+  },
+  {
+    pattern: /\bfor\s+each\b/g,
+    describe: () => "**Indexed loop**: `for each x of xs` loops over an array by index, faster than an iterator",
+  },
+  {
+    pattern: /\bfor\s+own\b/g,
+    describe: () => "**Own properties loop**: `for own key in obj` skips inherited properties",
+  },
+  {
+    pattern: /(?<=[\w$)\]]\s*)\.\.\.?(?=\s*[\w$(\-+])/g,
+    describe: ([op]) => op === ".."
+      ? "**Range**: `[a..b]` is the numbers from `a` to `b`, inclusive; `[a...b]` excludes `b`"
+      : "**Range**: `[a...b]` is the numbers from `a` up to but excluding `b`",
+  },
+  {
+    pattern: /:=/g,
+    describe: () => "**Const declaration**: `x := 1` is `const x = 1`",
+  },
+  {
+    pattern: /\.=/g,
+    describe: () => "**Let declaration**: `x .= 1` is `let x = 1`",
+  },
+  {
+    pattern: /!?<\?/g,
+    describe: () => "**Type check**: `x <? \"string\"` is `typeof x === \"string\"`, `x <? Foo` is `x instanceof Foo`, and `!<?` negates it",
+  },
+  {
+    pattern: /\bis\s+(?:not\s+)?in\b|\bnot\s+in\b/g,
+    describe: ([op]) => {
+      if (/^is\s+not/.test(op!)) return "**Not included**: `a is not in b` is `!b.includes(a)`"
+      if (/^is/.test(op!)) return "**Included**: `a is in b` is `b.includes(a)`"
+      return "**Not in**: `a not in b` is `!(a in b)`"
+    },
+  },
+  {
+    pattern: comparison,
+    describe: (match, line) => {
+      const start = match.index!, end = start + match[0].length
+      const chained = [...line.matchAll(comparison)].some((other) => {
+        if (other.index === start) return false
+        const between = other.index! < start
+          ? line.slice(other.index! + other[0].length, start)
+          : line.slice(end, other.index)
+        return chainedOperand.test(between)
+      })
+      if (chained) {
+        return "**Chained comparison**: `a < b < c` is `a < b && b < c`, evaluating `b` only once"
+      }
+      if (match[0].startsWith("is") && match[0] !== "isnt") {
+        return match[0] === "is" ? "**Strict equality**: `a is b` is `a === b`" : "**Strict inequality**: `a is not b` is `a !== b`"
+      }
+      return
+    },
+  },
+  {
+    pattern: /\b(?:and|or|not)\b/g,
+    describe: ([op]) => `**Logical operator**: \`${op}\` is \`${{ and: "&&", or: "||", not: "!" }[op!]}\``,
+  },
+  {
+    pattern: /%%/g,
+    describe: () => "**Modulo**: `a %% b` always has the sign of `b`, unlike `%`",
+  },
+  {
+    pattern: /\^\^/g,
+    describe: () => "**Logical xor**: `a ^^ b` is truthy when exactly one side is",
+  },
+  {
+    pattern: /->/g,
+    describe: () => "**Function**: `(x) -> x` is a `function` with its own `this`; `=>` is an arrow function",
+  },
+  {
+    pattern: /(?<![\w$])@(?=[\w$]|$|\s)/g,
+    describe: () => "**This**: `@` is `this`, and `@x` is `this.x`; `@x` parameters assign `this.x`",
+  },
+  {
+    pattern: /(?<=[\w$)\]])#(?![\w$])/g,
+    describe: () => "**Length shorthand**: `x#` is `x.length`",
+  },
+  {
+    pattern: /(?<=[\w$)\]])\?(?=\s|$|\))/g,
+    describe: () => "**Existence check**: `x?` is `x != null`, and `f? x` only calls `f` if it exists",
+  },
+  {
+    pattern: /\bunless\b/g,
+    describe: () => "**Unless**: `unless cond` is `if (!cond)`",
+  },
+  {
+    pattern: /\buntil\b/g,
+    describe: () => "**Until loop**: `until cond` is `while (!cond)`",
+  },
+  {
+    pattern: /\bloop\b/g,
+    describe: () => "**Loop**: `loop` is `while (true)`",
+  },
+  {
+    pattern: /\bcomptime\b/g,
+    describe: () => "**Compile-time evaluation**: `comptime` code runs during compilation, leaving its value in the output (when enabled)",
+  },
+  {
+    pattern: /\boperator\b/g,
+    describe: () => "**Custom operator**: `operator foo` lets the function `foo` be used infix, as in `a foo b`",
+  },
+  {
+    pattern: /\bdo\b/g,
+    describe: () => "**Do block**: `do` runs a block in its own scope; as an expression, its last value is the result",
+  },
+]
+
+/** A generated span, extended to close the brackets it opens (and the reverse) */
+function balance(text: string, start: number, end: number): [number, number] {
+  const depth = (s: string) => (s.match(/[([{]/g) ?? []).length - (s.match(/[)\]}]/g) ?? []).length
+  let open = depth(text.slice(start, end))
+  for (; open > 0 && end < text.length; end++) open += depth(text[end]!)
+  for (; open < 0 && start > 0; start--) open += depth(text[start - 1]!)
+  return [start, end]
+}
+
+/**
+ * The transpiled code for the source span `[start, end)`: from the first to
+ * the last generated segment the sourcemap maps into the span.
+ */
+export function getTranspiledSnippet(
+  document: TextDocument,
+  transpiledDoc: TextDocument,
+  sourcemapLines: SourcemapLines,
+  start: number,
+  end: number,
+): string | undefined {
+  let from = Infinity, to = -1
+  sourcemapLines.forEach((segments, line) => {
+    let column = 0
+    segments.forEach((segment, i) => {
+      column += segment[0]
+      if (segment.length !== 4) return
+      const sourceOffset = document.offsetAt({ line: segment[2], character: segment[3] })
+      if (sourceOffset < start || sourceOffset >= end) return
+
+      // Up to the next segment, or the end of the line
+      const next = segments[i + 1]
+      const segmentStart = transpiledDoc.offsetAt({ line, character: column })
+      const segmentEnd = next
+        ? segmentStart + next[0]
+        : transpiledDoc.offsetAt({ line: line + 1, character: 0 })
+      from = Math.min(from, segmentStart)
+      to = Math.max(to, segmentEnd)
+    })
+  })
+  if (to < 0) return
+
+  const transpiled = transpiledDoc.getText()
+  const [snippetStart, snippetEnd] = balance(transpiled, from, to)
+  return transpiled.slice(snippetStart, snippetEnd).trim().replace(/;$/, "") || undefined
+}
+
+/**
+ * Markdown explaining the Civet operator or keyword under the cursor, with
+ * the TypeScript emitted for the expression around it. Undefined if the
+ * cursor isn't on a Civet construct.
+ */
+export function describeConstruct(
+  ast: CivetChild | undefined,
+  document: TextDocument,
+  transpiledDoc: TextDocument,
+  sourcemapLines: SourcemapLines,
+  position: Position,
+): string | undefined {
+  const source = document.getText()
+  const lineStart = document.offsetAt({ line: position.line, character: 0 })
+  const line = source.slice(lineStart, document.offsetAt({ line: position.line + 1, character: 0 }))
+    .replace(/\r?\n$/, "")
+
+  const leaves = ast ? getLeaves(ast) : []
+  for (const { pattern, describe } of constructs) {
+    for (const match of line.matchAll(pattern)) {
+      const start = lineStart + match.index!
+      const end = start + match[0].length
+      const offset = lineStart + position.character
+      if (offset < start || offset > end) continue
+
+      // Not within strings, comments and such
+      if (leaves.some(({ $loc: { pos, length } }) =>
+        pos <= start && end <= pos + length && source.slice(pos, pos + length).trim() !== match[0]
+      )) continue
+
+      // Not property names and identifiers spelled like keywords (`obj.loop`,
+      // `{ do: 1 }`), which are emitted unchanged, unlike keywords
+      if (/^\w/.test(match[0]!)) {
+        if (/\??\.\s*$/.test(line.slice(0, match.index)) || /^\s*:(?![=:])/.test(line.slice(match.index! + match[0]!.length))) continue
+        if (leaves.some(({ token, $loc: { pos, length } }) =>
+          pos === start && length === match[0]!.length && token === match[0]
+        )) continue
+      }
+
+      const description = describe(match, line)
+      if (!description) continue
+
+      // The smallest node around the construct, bigger than just the operator.
+      // Something before the construct on its line is (usually) part of it.
+      const infix = /\S/.test(line.slice(0, match.index))
+      let span: [number, number] | undefined
+      if (ast) {
+        for (const [, [nodeStart, nodeEnd]] of getExtents(ast, source)) {
+          if (nodeStart > start || nodeEnd < end || (nodeStart === start && (infix || nodeEnd === end))) continue
+          if (!span || nodeEnd - nodeStart < span[1] - span[0]) span = [nodeStart, nodeEnd]
+        }
+      }
+      span ??= [lineStart, lineStart + line.length]
+
+      const snippet = getTranspiledSnippet(document, transpiledDoc, sourcemapLines, ...span)
+      return snippet ? `${description}\n\n\`\`\`typescript\n${snippet}\n\`\`\`` : description
+    }
+  }
+  return
+}
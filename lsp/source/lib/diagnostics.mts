@@ -0,0 +1,99 @@
+import type { ParseError } from '@danielx/civet';
+import { DiagnosticSeverity, type Diagnostic, type RemoteConsole } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { fileURLToPath } from 'url';
+import { runPluginHooks } from './plugins.mjs';
+import type { ResolvedService } from './typescript-service.mjs';
+import { convertDiagnostic, logTiming, tsSuffix } from './util.mjs';
+
+/**
+ * All diagnostics for a document, in its own coordinates: Civet parse errors
+ * plus TypeScript's syntactic, semantic and suggestion diagnostics, remapped
+ * from the transpiled file for transpiled documents, and those from plugins.
+ *
+ * The document must already be added to the service's host.
+ * Shared by the language server and `civet lspcheck` so both report the same.
+ */
+export function getDocumentDiagnostics(
+  service: ResolvedService,
+  document: TextDocument,
+  logger: Console | RemoteConsole = console,
+): Diagnostic[] | undefined {
+  const sourcePath = fileURLToPath(document.uri)
+
+  const getTSDiagnostics = (path: string) => [
+    ...logTiming(logger, "service.getSyntacticDiagnostics", service.getSyntacticDiagnostics)(path),
+    ...logTiming(logger, "service.getSemanticDiagnostics", service.getSemanticDiagnostics)(path),
+    ...logTiming(logger, "service.getSuggestionDiagnostics", service.getSuggestionDiagnostics)(path),
+  ]
+
+  // Non-transpiled
+  if (sourcePath.match(tsSuffix)) {
+    return [
+      ...getTSDiagnostics(sourcePath).map((diagnostic) => convertDiagnostic(diagnostic, document)),
+      ...getPluginDiagnostics(service, document, logger),
+    ]
+  }
+
+  // Transpiled file
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta) {
+    logger.log("no meta for " + sourcePath)
+    return
+  }
+  const { sourcemapLines, transpiledDoc, parseErrors, fatal } = meta
+  if (!transpiledDoc) {
+    logger.log("no transpiledDoc for " + sourcePath)
+    return
+  }
+
+  const transpiledPath = fileURLToPath(transpiledDoc.uri)
+  const diagnostics: Diagnostic[] = [];
+
+  if (parseErrors?.length) {
+    diagnostics.push(...parseErrors.map(convertParseError))
+  }
+  if (!fatal) {
+    getTSDiagnostics(transpiledPath).forEach((diagnostic) => {
+      diagnostics.push(convertDiagnostic(diagnostic, transpiledDoc, sourcemapLines))
+    })
+  }
+  diagnostics.push(...getPluginDiagnostics(service, document, logger))
+
+  return diagnostics
+}
+
+function getPluginDiagnostics(
+  service: ResolvedService,
+  document: TextDocument,
+  logger: Console | RemoteConsole,
+): Diagnostic[] {
+  const plugins = service.getPlugins()
+  if (!plugins.length) return []
+  const context = service.getPluginContext(document)
+  return runPluginHooks(plugins, "getDiagnostics", logger, (plugin) => plugin.getDiagnostics!(context)).flat()
+}
+
+function convertParseError(e: Error | ParseError): Diagnostic {
+  let start = { line: 0, character: 0 }, end = { line: 0, character: 10 }
+  let message = e.message
+  if ("line" in e && e.line != null && e.column != null) { // ParseError
+    // Remove leading filename:line:column from message
+    message = message.replace(/^\S+ /, "")
+    // Convert 1-based to 0-based
+    start.line = end.line = +e.line - 1
+    start.character = +e.column - 1
+    end.character = +e.column + 3
+  }
+
+  return {
+    severity: DiagnosticSeverity.Error,
+    // Don't need to transform the range, it's already in the source file coordinates
+    range: {
+      start,
+      end,
+    },
+    message,
+    source: 'civet'
+  }
+}
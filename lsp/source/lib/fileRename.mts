@@ -0,0 +1,99 @@
+import { TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { pathToFileURL } from 'url';
+import type { ResolvedService } from './typescript-service.mjs';
+import { renameModuleSpecifier } from './imports.mjs';
+import { remapPosition } from './util.mjs';
+
+export interface FileRename {
+  oldPath: string
+  newPath: string
+}
+
+// `./foo.civet` and `./foo.js` (after `rewriteCivetImports`) name the same module
+const stripExtension = (specifier: string) =>
+  specifier.replace(/(?:\.civet)?(?:\.[cm]?[jt]sx?)?$/, "")
+
+/**
+ * Where a module specifier of the transpiled code is in the source: the token
+ * naming the same module on the line the sourcemap points to, quoted or not
+ * (`{x} from ./foo.civet`), nearest to where it points.
+ */
+function findSpecifier(source: string, offset: number, specifier: string): [number, number] | undefined {
+  const lineStart = source.lastIndexOf("\n", offset - 1) + 1
+  let lineEnd = source.indexOf("\n", offset)
+  if (lineEnd < 0) lineEnd = source.length
+
+  let best: [number, number] | undefined
+  for (const match of source.slice(lineStart, lineEnd).matchAll(/[^\s'";]+/g)) {
+    if (stripExtension(match[0]) !== stripExtension(specifier)) continue
+    const start = lineStart + match.index
+    if (!best || Math.abs(start - offset) < Math.abs(best[0] - offset)) {
+      best = [start, start + match[0].length]
+    }
+  }
+  return best
+}
+
+/**
+ * Edits that update the imports of renamed or moved files (or directories)
+ * across the project, keyed by document uri. Imports in `.civet` files are
+ * found through the sourcemap and keep their own style.
+ */
+export function getFileRenameEdits(
+  service: ResolvedService,
+  renames: FileRename[],
+  getDocument: (path: string) => TextDocument | undefined,
+): Record<string, TextEdit[]> {
+  // Importers don't have to be open
+  service.includeProjectFiles()
+  const { rewriteCivetImports } = service.getParseOptions()
+
+  const changes: Record<string, TextEdit[]> = {}
+  for (const { oldPath, newPath } of renames) {
+    const fileTextChanges = service.getEditsForFileRename(
+      service.getTranspiledFileName(oldPath),
+      service.getTranspiledFileName(newPath),
+      {},
+      {},
+    )
+
+    for (const { fileName, textChanges } of fileTextChanges) {
+      const sourceFileName = service.getSourceFileName(fileName)
+      const document = getDocument(sourceFileName)
+      if (!document) continue
+      const source = document.getText()
+
+      const transpiled = sourceFileName !== fileName
+      const meta = transpiled ? service.host.getMeta(sourceFileName) : undefined
+      if (transpiled && (!meta?.transpiledDoc || !meta.sourcemapLines)) continue
+
+      const edits: TextEdit[] = []
+      for (const { span, newText } of textChanges) {
+        let start = span.start, end = span.start + span.length
+
+        // Transpiled: find the import the specifier came from
+        if (meta) {
+          const transpiledDoc = meta.transpiledDoc!
+          const transpiledSpecifier = transpiledDoc.getText().slice(start, end)
+          const mapped = remapPosition(transpiledDoc.positionAt(start), meta.sourcemapLines!)
+          const found = findSpecifier(source, document.offsetAt(mapped), transpiledSpecifier)
+          if (!found) continue
+          start = found[0]
+          end = found[1]
+        }
+
+        edits.push(TextEdit.replace(
+          { start: document.positionAt(start), end: document.positionAt(end) },
+          renameModuleSpecifier(source.slice(start, end), newText, rewriteCivetImports),
+        ))
+      }
+
+      if (!edits.length) continue
+      const uri = pathToFileURL(sourceFileName).toString()
+      changes[uri] = (changes[uri] ?? []).concat(edits)
+    }
+  }
+
+  return changes
+}
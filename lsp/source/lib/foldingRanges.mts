@@ -0,0 +1,76 @@
+import { FoldingRangeKind, type FoldingRange } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { getExtents, isNode, walk, type CivetChild, type CivetNode } from './ast.mjs';
+
+const foldedTypes = new Set([
+  "BlockStatement",
+  "ObjectExpression",
+  "ArrayExpression",
+  "JSXElement",
+  "JSXFragment",
+])
+
+/**
+ * Folding ranges from the structure of the Civet AST rather than indentation,
+ * which gets confused by continuation lines, block strings and JSX.
+ */
+export function getFoldingRanges(ast: CivetChild, document: TextDocument): FoldingRange[] {
+  const source = document.getText()
+  const extents = getExtents(ast, source)
+  const ranges: FoldingRange[] = []
+  const lineAt = (offset: number) => document.positionAt(offset).line
+
+  function add(start: number, end: number, kind?: FoldingRangeKind) {
+    const startLine = lineAt(start)
+    let endLine = lineAt(end)
+    // Keep a closing bracket or tag on its own line visible
+    const lastLine = source.slice(source.lastIndexOf("\n", end - 1) + 1, end)
+    if (/^\s*(?:[}\])]|<\/)/.test(lastLine)) endLine--
+    if (endLine > startLine) {
+      ranges.push(kind ? { startLine, endLine, kind } : { startLine, endLine })
+    }
+  }
+
+  walk(ast, (node) => {
+    const extent = extents.get(node)
+    if (!extent) return
+
+    if (node.type === "Comment") {
+      add(...extent, FoldingRangeKind.Comment)
+      return
+    }
+    if (node.type === "BlockStatement") {
+      addImportGroups(node)
+      if (node.root) return
+      // Indented blocks fold from the line that introduces them
+      const header = source.slice(0, extent[0]).trimEnd().length
+      add(Math.max(0, header - 1), extent[1])
+      return
+    }
+    if (node.type && foldedTypes.has(node.type)) {
+      add(...extent)
+    }
+  })
+
+  // Consecutive imports fold together
+  function addImportGroups(block: CivetNode) {
+    const statements = ((block.expressions ?? []) as CivetChild[][])
+      .map(([, statement]) => statement)
+    let group: [number, number] | undefined
+    for (const statement of [...statements, undefined]) {
+      const extent = isNode(statement) && statement.type === "ImportDeclaration"
+        ? extents.get(statement)
+        : undefined
+      if (extent) {
+        group = group ? [group[0], extent[1]] : [...extent]
+        continue
+      }
+      if (group) add(...group, FoldingRangeKind.Imports)
+      group = undefined
+    }
+  }
+
+  // Only one range can start on a line, so keep the biggest
+  ranges.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine)
+  return ranges.filter((range, i) => range.startLine !== ranges[i - 1]?.startLine)
+}
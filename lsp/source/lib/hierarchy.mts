@@ -0,0 +1,192 @@
+import ts from 'typescript';
+import {
+  SymbolKind,
+  SymbolTag,
+  type CallHierarchyIncomingCall,
+  type CallHierarchyItem,
+  type CallHierarchyOutgoingCall,
+  type TypeHierarchyItem,
+} from 'vscode-languageserver';
+import type { ResolvedService } from './typescript-service.mjs';
+import { toSourceLocation } from './locations.mjs';
+import { containsRange, findNode, getSymbolKind, parseKindModifier } from './util.mjs';
+
+/** Where an item is for TypeScript, kept in the item's `data` for the follow-up requests */
+export interface HierarchyItemData {
+  fileName: string
+  offset: number
+}
+
+type TypeDeclaration = ts.ClassLikeDeclaration | ts.InterfaceDeclaration
+
+function isTypeDeclaration(node: ts.Node): node is TypeDeclaration {
+  return ts.isClassLike(node) || ts.isInterfaceDeclaration(node)
+}
+
+/**
+ * Item with its ranges remapped to the source file,
+ * or undefined if TSServer doesn't know the file.
+ */
+function makeItem(
+  service: ResolvedService,
+  fileName: string,
+  span: ts.TextSpan,
+  selectionSpan: ts.TextSpan,
+  name: string,
+  kind: SymbolKind,
+  kindModifiers = "",
+): CallHierarchyItem & TypeHierarchyItem | undefined {
+  const location = toSourceLocation(service, fileName, span)
+  const selection = toSourceLocation(service, fileName, selectionSpan)
+  if (!location || !selection) return
+
+  const data: HierarchyItemData = { fileName, offset: selectionSpan.start }
+  const item: CallHierarchyItem & TypeHierarchyItem = {
+    name,
+    kind,
+    uri: location.uri,
+    range: location.range,
+    selectionRange: containsRange(location.range, selection.range) ? selection.range : location.range,
+    data,
+  }
+  if (parseKindModifier(kindModifiers).has(ts.ScriptElementKindModifier.deprecatedModifier)) {
+    item.tags = [SymbolTag.Deprecated]
+  }
+  return item
+}
+
+// Call hierarchy
+
+function convertCallHierarchyItem(service: ResolvedService, item: ts.CallHierarchyItem): CallHierarchyItem | undefined {
+  const result = makeItem(service, item.file, item.span, item.selectionSpan, item.name, getSymbolKind(item.kind), item.kindModifiers)
+  if (result && item.containerName) result.detail = item.containerName
+  return result
+}
+
+function toSourceRanges(service: ResolvedService, fileName: string, spans: ts.TextSpan[]) {
+  return spans.flatMap((span) => toSourceLocation(service, fileName, span)?.range ?? [])
+}
+
+export function prepareCallHierarchy(service: ResolvedService, fileName: string, offset: number): CallHierarchyItem[] {
+  const items = service.prepareCallHierarchy(fileName, offset)
+  if (!items) return []
+
+  return [items].flat().flatMap((item) => convertCallHierarchyItem(service, item) ?? [])
+}
+
+export function getIncomingCalls(service: ResolvedService, { fileName, offset }: HierarchyItemData): CallHierarchyIncomingCall[] {
+  // Callers can be in files that aren't open
+  service.includeProjectFiles()
+
+  return service.provideCallHierarchyIncomingCalls(fileName, offset).flatMap(({ from, fromSpans }) => {
+    const item = convertCallHierarchyItem(service, from)
+    if (!item) return []
+    return { from: item, fromRanges: toSourceRanges(service, from.file, fromSpans) }
+  })
+}
+
+export function getOutgoingCalls(service: ResolvedService, { fileName, offset }: HierarchyItemData): CallHierarchyOutgoingCall[] {
+  return service.provideCallHierarchyOutgoingCalls(fileName, offset).flatMap(({ to, fromSpans }) => {
+    const item = convertCallHierarchyItem(service, to)
+    if (!item) return []
+    // The calls are in the file of the item we started from
+    return { to: item, fromRanges: toSourceRanges(service, fileName, fromSpans) }
+  })
+}
+
+// Type hierarchy
+// TypeScript has no API for this, so we follow `extends` and `implements`
+// clauses with the type checker, and find subtypes among their references.
+
+/** The classes and interfaces that `node` (a declaration or a name) refers to */
+function getTypeDeclarations(checker: ts.TypeChecker, node: ts.Node): TypeDeclaration[] {
+  if (isTypeDeclaration(node)) return [node]
+  if (isTypeDeclaration(node.parent) && ts.getNameOfDeclaration(node.parent) === node) return [node.parent]
+
+  let symbol = checker.getSymbolAtLocation(node)
+  if (!symbol) return []
+  if (symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+
+  return (symbol.declarations ?? []).flatMap((declaration) => {
+    if (isTypeDeclaration(declaration)) return declaration
+    // `Foo := class ...`
+    if (ts.isVariableDeclaration(declaration) && declaration.initializer && ts.isClassExpression(declaration.initializer)) {
+      return declaration.initializer
+    }
+    return []
+  })
+}
+
+function convertTypeDeclaration(service: ResolvedService, declaration: TypeDeclaration): TypeHierarchyItem | undefined {
+  const sourceFile = declaration.getSourceFile()
+  const nameNode = ts.getNameOfDeclaration(declaration)
+  const start = declaration.getStart(sourceFile)
+  const nameStart = nameNode ? nameNode.getStart(sourceFile) : start
+  const nameEnd = nameNode ? nameNode.end : start
+
+  return makeItem(
+    service,
+    sourceFile.fileName,
+    { start, length: declaration.end - start },
+    { start: nameStart, length: nameEnd - nameStart },
+    nameNode ? nameNode.getText(sourceFile) : "<class>",
+    ts.isInterfaceDeclaration(declaration) ? SymbolKind.Interface : SymbolKind.Class,
+    ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Deprecated ? ts.ScriptElementKindModifier.deprecatedModifier : "",
+  )
+}
+
+function findTypeDeclarations(service: ResolvedService, fileName: string, offset: number): TypeDeclaration[] {
+  const program = service.getProgram()
+  const sourceFile = program?.getSourceFile(fileName)
+  if (!program || !sourceFile) return []
+
+  return getTypeDeclarations(program.getTypeChecker(), findNode(sourceFile, offset))
+}
+
+function convertTypeDeclarations(service: ResolvedService, declarations: Iterable<TypeDeclaration>): TypeHierarchyItem[] {
+  return Array.from(new Set(declarations), (declaration) => convertTypeDeclaration(service, declaration) ?? [])
+    .flat()
+}
+
+export function prepareTypeHierarchy(service: ResolvedService, fileName: string, offset: number): TypeHierarchyItem[] {
+  return convertTypeDeclarations(service, findTypeDeclarations(service, fileName, offset))
+}
+
+export function getSupertypes(service: ResolvedService, { fileName, offset }: HierarchyItemData): TypeHierarchyItem[] {
+  const checker = service.getProgram()?.getTypeChecker()
+  if (!checker) return []
+
+  const supertypes = findTypeDeclarations(service, fileName, offset).flatMap((declaration) =>
+    (declaration.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.flatMap(({ expression }) =>
+        // `extends ns.Base` refers to the type by its last name
+        getTypeDeclarations(checker, ts.isPropertyAccessExpression(expression) ? expression.name : expression)
+      )
+    )
+  )
+  return convertTypeDeclarations(service, supertypes)
+}
+
+export function getSubtypes(service: ResolvedService, { fileName, offset }: HierarchyItemData): TypeHierarchyItem[] {
+  // Subtypes can be in files that aren't open
+  service.includeProjectFiles()
+
+  const references = service.getReferencesAtPosition(fileName, offset)
+  const program = service.getProgram()
+  if (!references || !program) return []
+
+  const subtypes = references.flatMap(({ fileName, textSpan }) => {
+    const sourceFile = program.getSourceFile(fileName)
+    if (!sourceFile) return []
+
+    // A reference in an `extends` or `implements` clause, maybe as `ns.Base`
+    let node = findNode(sourceFile, textSpan.start)
+    while (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) node = node.parent
+    const heritage = node.parent
+    if (!ts.isExpressionWithTypeArguments(heritage) || !ts.isHeritageClause(heritage.parent)) return []
+
+    const declaration = heritage.parent.parent
+    return isTypeDeclaration(declaration) ? [declaration] : []
+  })
+  return convertTypeDeclarations(service, subtypes)
+}
@@ -0,0 +1,88 @@
+import ts from 'typescript';
+import { DocumentHighlightKind, type DocumentHighlight, type Position, type Range } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { fileURLToPath } from 'url';
+import type { ResolvedService } from './typescript-service.mjs';
+import { forwardMap, remapPosition, tsSuffix } from './util.mjs';
+
+// Stronger kinds win when several TS spans land on the same source range
+const kindRank = {
+  [DocumentHighlightKind.Text]: 0,
+  [DocumentHighlightKind.Read]: 1,
+  [DocumentHighlightKind.Write]: 2,
+}
+
+function convertKind(kind: ts.HighlightSpanKind): DocumentHighlightKind {
+  switch (kind) {
+    case ts.HighlightSpanKind.writtenReference: return DocumentHighlightKind.Write
+    case ts.HighlightSpanKind.definition:
+    case ts.HighlightSpanKind.reference: return DocumentHighlightKind.Read
+    default: return DocumentHighlightKind.Text
+  }
+}
+
+/**
+ * Highlight every read and write of the identifier under the cursor within
+ * `document`.
+ *
+ * In `.civet` files one identifier can turn into several in the transpiled
+ * TypeScript (`@x` parameters, `{@x}`, destructuring and pattern matching),
+ * so several highlights can map back onto the same source range; the
+ * strongest kind wins. Highlights that don't map back onto an identifier
+ * (generated code) are dropped.
+ */
+export function getDocumentHighlights(service: ResolvedService, document: TextDocument, position: Position): DocumentHighlight[] {
+  const sourcePath = fileURLToPath(document.uri)
+
+  // Non-transpiled
+  if (sourcePath.match(tsSuffix)) {
+    const highlights = service.getDocumentHighlights(sourcePath, document.offsetAt(position), [sourcePath]) ?? []
+    return highlights.flatMap(({ highlightSpans }) => highlightSpans.map(({ textSpan, kind }) => ({
+      range: {
+        start: document.positionAt(textSpan.start),
+        end: document.positionAt(textSpan.start + textSpan.length),
+      },
+      kind: convertKind(kind),
+    })))
+  }
+
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta?.transpiledDoc || !meta.sourcemapLines) return []
+  const { transpiledDoc, sourcemapLines } = meta
+  const transpiledPath = fileURLToPath(transpiledDoc.uri)
+  const source = document.getText()
+  const transpiled = transpiledDoc.getText()
+
+  // Where `name` at `offset` in the transpiled file is in the source.
+  // Mappings can land on the space before it, or on `@` for `this.x`
+  const sourceOffset = (offset: number, name: string) => {
+    let start = document.offsetAt(remapPosition(transpiledDoc.positionAt(offset), sourcemapLines))
+    while (!source.startsWith(name, start) && /[ \t@]/.test(source[start] ?? "")) start++
+    if (source.startsWith(name, start)) return start
+    return
+  }
+
+  const offset = transpiledDoc.offsetAt(forwardMap(sourcemapLines, position))
+  const highlights = new Map<string, DocumentHighlight>()
+  for (const { highlightSpans } of service.getDocumentHighlights(transpiledPath, offset, [transpiledPath]) ?? []) {
+    for (const { textSpan, kind } of highlightSpans) {
+      const name = transpiled.slice(textSpan.start, textSpan.start + textSpan.length)
+      const start = sourceOffset(textSpan.start, name)
+      // Generated code
+      if (start === undefined) continue
+
+      const range: Range = {
+        start: document.positionAt(start),
+        end: document.positionAt(start + name.length),
+      }
+      const highlight = { range, kind: convertKind(kind) }
+      const key = `${start}:${name.length}`
+      const existing = highlights.get(key)
+      if (!existing || kindRank[highlight.kind] > kindRank[existing.kind!]) {
+        highlights.set(key, highlight)
+      }
+    }
+  }
+
+  return [...highlights.values()]
+}
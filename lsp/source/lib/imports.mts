@@ -0,0 +1,105 @@
+import path from "path"
+import ts from "typescript"
+
+const { sys } = ts
+
+export interface ImportStyle {
+  /** Write `{x} from y` instead of `import {x} from y` */
+  short: boolean
+  /** Leave simple module specifiers unquoted, as in `{x} from ./y.civet` */
+  unquoted: boolean
+}
+
+// Top level import statements, with or without the `import` keyword
+const importLine = /^(import\s+)?(?:type\s+)?(?:[\w$]+\s*,\s*)?(?:[\w$]+|\{[^}\n]*\}|\*\s+as\s+[\w$]+)\s+from\s+(['"]?)[^\s'"]+\2/gm
+
+/**
+ * Detect how a Civet file writes its imports from the first one it has.
+ * Files without imports get the TypeScript form, which is valid Civet too.
+ */
+export function getImportStyle(source: string): ImportStyle {
+  importLine.lastIndex = 0
+  const match = importLine.exec(source)
+  if (!match) return { short: false, unquoted: false }
+
+  return {
+    short: !match[1],
+    unquoted: !match[2],
+  }
+}
+
+const unquotable = /^[\w@.\/-]+$/
+
+/**
+ * Rewrite an import statement generated by TypeScript into the style of the
+ * Civet file it gets inserted into. Import specifiers TypeScript computed for
+ * transpiled files are pointed back at the `.civet` source.
+ *
+ * @param text The inserted text, possibly several lines with surrounding newlines
+ * @param importingFile Path of the `.civet` file being edited
+ * @param style Import style from `getImportStyle`
+ * @param rewriteCivetImports The `rewriteCivetImports` parse option, if set
+ */
+export function civetifyImports(
+  text: string,
+  importingFile: string,
+  style: ImportStyle,
+  rewriteCivetImports?: string,
+): string {
+  return text.replace(
+    /^import\s+(.*?\s+from\s+)(['"])([^'"]+)\2;?[ \t]*$/gm,
+    (_, clause: string, quote: string, specifier: string) => {
+      specifier = toCivetModuleSpecifier(specifier, importingFile, rewriteCivetImports)
+      const module = style.unquoted && unquotable.test(specifier)
+        ? specifier
+        : quote + specifier + quote
+      // Type-only imports keep their keyword
+      const short = style.short && !clause.startsWith("type ")
+      return (short ? "" : "import ") + clause + module
+    }
+  )
+}
+
+/**
+ * TypeScript only sees `foo.civet` as the transpiled `foo.civet.tsx`, and may
+ * copy the extension that `rewriteCivetImports` gives existing imports.
+ * Either way the source should import `foo.civet`.
+ */
+export function toCivetModuleSpecifier(
+  specifier: string,
+  importingFile: string,
+  rewriteCivetImports?: string,
+): string {
+  specifier = specifier.replace(/\.civet\.[cm]?[jt]sx?$/, ".civet")
+
+  if (rewriteCivetImports && specifier.startsWith(".") && specifier.endsWith(rewriteCivetImports)) {
+    const civetSpecifier = specifier.slice(0, -rewriteCivetImports.length) + ".civet"
+    if (sys.fileExists(path.resolve(path.dirname(importingFile), civetSpecifier))) {
+      return civetSpecifier
+    }
+  }
+
+  return specifier
+}
+
+/**
+ * The specifier TypeScript computed for a renamed module, written the way the
+ * importing source wrote the old one: `.civet` imports stay `.civet` imports,
+ * and imports of the extension `rewriteCivetImports` compiles them to keep it.
+ */
+export function renameModuleSpecifier(
+  oldSpecifier: string,
+  newSpecifier: string,
+  rewriteCivetImports?: string,
+): string {
+  newSpecifier = newSpecifier.replace(/\.civet\.[cm]?[jt]sx?$/, ".civet")
+  if (!rewriteCivetImports) return newSpecifier
+
+  if (oldSpecifier.endsWith(".civet") && newSpecifier.endsWith(rewriteCivetImports)) {
+    return newSpecifier.slice(0, -rewriteCivetImports.length) + ".civet"
+  }
+  if (oldSpecifier.endsWith(rewriteCivetImports) && newSpecifier.endsWith(".civet")) {
+    return newSpecifier.slice(0, -".civet".length) + rewriteCivetImports
+  }
+  return newSpecifier
+}
@@ -0,0 +1,96 @@
+import type ts from 'typescript';
+import { InlayHintKind, type InlayHint, type Position, type Range } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { containsRange, remapPosition, type SourcemapLines } from './util.mjs';
+
+export const inlayHintPreferences: ts.UserPreferences = {
+  includeInlayVariableTypeHints: true,
+  includeInlayVariableTypeHintsWhenTypeMatchesName: false,
+  includeInlayFunctionLikeReturnTypeHints: true,
+  includeInlayPropertyDeclarationTypeHints: true,
+  includeInlayParameterNameHints: "literals",
+  includeInlayParameterNameHintsWhenArgumentMatchesName: false,
+}
+
+// The token a hint is attached to: the name or `)` before a type hint,
+// the argument after a parameter name hint
+const tokenBefore = /(?:[\w$]+|[^\s])$/
+const tokenAfter = /^\s*(?:[\w$]+|[^\s])/
+
+/**
+ * Convert TypeScript inlay hints, mapping them from the transpiled document
+ * back into the source document when `sourcemapLines` is given.
+ *
+ * A hint is only kept if the token it is attached to reads the same in both
+ * documents, which suppresses hints on code that only exists in the output
+ * (helpers, refs, expanded shorthands).
+ */
+export function convertInlayHints(
+  hints: readonly ts.InlayHint[],
+  document: TextDocument,
+  sourceDocument: TextDocument = document,
+  sourcemapLines?: SourcemapLines,
+  range?: Range,
+): InlayHint[] {
+  const result: InlayHint[] = []
+
+  for (const hint of hints) {
+    let position = document.positionAt(hint.position)
+
+    if (sourcemapLines) {
+      // Lines with no mappings at all are generated
+      if (!sourcemapLines[position.line]?.some((mapping) => mapping.length === 4)) continue
+
+      const sourcePosition = findSameToken(
+        document,
+        position,
+        sourceDocument,
+        remapPosition(position, sourcemapLines),
+        hint.kind === "Parameter"
+      )
+      if (!sourcePosition) continue
+      position = sourcePosition
+    }
+
+    if (range && !containsRange(range, { start: position, end: position })) continue
+
+    result.push({
+      position,
+      label: hint.text || (hint.displayParts ?? []).map((part) => part.text).join(''),
+      kind: hint.kind === "Parameter" ? InlayHintKind.Parameter : InlayHintKind.Type,
+      paddingLeft: !!hint.whitespaceBefore,
+      paddingRight: !!hint.whitespaceAfter,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Check that the token next to a hint is the same in both documents and
+ * return where the hint goes in the source. Arguments of implicit calls
+ * (`f 3` for `f(3)`) map to the space before them, so skip that.
+ */
+function findSameToken(
+  document: TextDocument,
+  position: Position,
+  sourceDocument: TextDocument,
+  sourcePosition: Position,
+  after: boolean,
+): Position | undefined {
+  const lineText = (doc: TextDocument, { line, character }: Position) => {
+    const text = doc.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } })
+    return after ? text.slice(character) : text.slice(0, character)
+  }
+
+  const pattern = after ? tokenAfter : tokenBefore
+  const token = lineText(document, position).match(pattern)?.[0]
+  const sourceToken = lineText(sourceDocument, sourcePosition).match(pattern)?.[0]
+  if (!token || !sourceToken || token.trim() !== sourceToken.trim()) return
+
+  if (!after) return sourcePosition
+  return {
+    line: sourcePosition.line,
+    character: sourcePosition.character + sourceToken.length - sourceToken.trimStart().length,
+  }
+}
@@ -0,0 +1,32 @@
+import type ts from 'typescript';
+import type { Location } from 'vscode-languageserver';
+import { pathToFileURL } from 'url';
+import type { ResolvedService } from './typescript-service.mjs';
+import { remapPosition } from './util.mjs';
+
+/**
+ * The location of a span in a file known to TSServer, in the coordinates of
+ * the file the user edits: spans in transpiled files are reverse mapped back
+ * to the `.civet` source.
+ */
+export function toSourceLocation(service: ResolvedService, fileName: string, textSpan: ts.TextSpan): Location | undefined {
+  const sourceFile = service.getProgram()?.getSourceFile(fileName)
+  if (!sourceFile) return
+
+  let start = sourceFile.getLineAndCharacterOfPosition(textSpan.start)
+  let end = sourceFile.getLineAndCharacterOfPosition(textSpan.start + textSpan.length)
+  const sourceName = service.getSourceFileName(fileName)
+
+  if (sourceName !== fileName) {
+    const sourcemapLines = service.host.getMeta(sourceName)?.sourcemapLines
+    if (sourcemapLines) {
+      start = remapPosition(start, sourcemapLines)
+      end = remapPosition(end, sourcemapLines)
+    }
+  }
+
+  return {
+    uri: pathToFileURL(sourceName).toString(),
+    range: { start, end },
+  }
+}
@@ -0,0 +1,89 @@
+import path from "path"
+import { Console } from "console"
+import { Writable } from "stream"
+import { pathToFileURL } from "url"
+
+import ts from "typescript"
+import { DiagnosticSeverity, type Diagnostic } from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import TSService from "./typescript-service.mjs"
+import { getDocumentDiagnostics } from "./diagnostics.mjs"
+
+const { sys } = ts
+
+export interface FileDiagnostics {
+  fileName: string
+  diagnostics: Diagnostic[]
+}
+
+// Service logs are for the editor's output channel; only keep errors
+const quietLogger = new Console({
+  stdout: new Writable({ write(_chunk, _encoding, callback) { callback() } }),
+  stderr: process.stderr,
+})
+
+/**
+ * Check every file of a project through the same `TSService` and diagnostics
+ * the language server uses, as if all of them were open in the editor.
+ */
+export async function checkProject(projectDir: string, logger: Console = quietLogger): Promise<FileDiagnostics[]> {
+  const service = await TSService(pathToFileURL(path.resolve(projectDir) + "/").href, logger)
+  await service.loadPlugins()
+
+  const documents = service.getProjectFileNames().map((fileName) => {
+    const document = TextDocument.create(pathToFileURL(fileName).href, "", 1, sys.readFile(fileName) ?? "")
+    service.host.addOrUpdateDocument(document)
+    return { fileName, document }
+  })
+
+  return documents.map(({ fileName, document }) => ({
+    fileName,
+    diagnostics: getDocumentDiagnostics(service, document, logger) ?? [],
+  }))
+}
+
+const severityNames: Partial<Record<DiagnosticSeverity, string>> = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "info",
+}
+
+/**
+ * Format a diagnostic like `tsc --pretty false`, with 1-based positions in
+ * source coordinates. Hints (unused variables and such) aren't reported.
+ */
+export function formatDiagnostic(fileName: string, diagnostic: Diagnostic, cwd = process.cwd()): string | undefined {
+  const severity = severityNames[diagnostic.severity ?? DiagnosticSeverity.Error]
+  if (!severity) return
+
+  const { line, character } = diagnostic.range.start
+  const code = diagnostic.source === "civet" ? "civet" : `TS${diagnostic.code}`
+  return `${path.relative(cwd, fileName)}:${line + 1}:${character + 1} - ${severity} ${code}: ${diagnostic.message}`
+}
+
+/**
+ * `civet lspcheck [project...]`: print the diagnostics of each project
+ * directory (default: the current one) and return the process exit code,
+ * nonzero if there were any errors.
+ */
+export async function lspcheck(projectDirs: string[]): Promise<number> {
+  if (!projectDirs.length) projectDirs = ["."]
+
+  let errors = 0
+  for (const projectDir of projectDirs) {
+    for (const { fileName, diagnostics } of await checkProject(projectDir)) {
+      for (const diagnostic of diagnostics) {
+        const message = formatDiagnostic(fileName, diagnostic)
+        if (!message) continue
+        console.log(message)
+        if (diagnostic.severity === DiagnosticSeverity.Error) errors++
+      }
+    }
+  }
+
+  if (errors) {
+    console.log(`\nFound ${errors} error${errors === 1 ? "" : "s"}.`)
+  }
+  return errors ? 1 : 0
+}
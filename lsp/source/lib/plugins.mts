@@ -0,0 +1,83 @@
+import type {
+  CodeAction,
+  CompletionItem,
+  Diagnostic,
+  Position,
+  Range,
+  RemoteConsole,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { CivetChild } from './ast.mjs';
+import type { Transpiler } from './typescript-service.mjs';
+import type { SourcemapLines } from './util.mjs';
+
+/**
+ * Version of the plugin interface. Plugins declare the version they were
+ * written against as `apiVersion`; plugins without one only get to add
+ * `transpilers`. Bump this when hooks change incompatibly.
+ */
+export const pluginApiVersion = 1
+
+/** A document as plugin hooks see it, in the document's own coordinates */
+export interface PluginDocumentContext {
+  document: TextDocument
+  /** Raw Civet AST, or undefined for other files and documents that don't parse */
+  ast: CivetChild | undefined
+  /** The TypeScript the document transpiles to, or undefined if TypeScript reads it directly */
+  transpiledDoc: TextDocument | undefined
+  /** Sourcemap from `transpiledDoc` back to `document` */
+  sourcemapLines: SourcemapLines | undefined
+}
+
+/** The default export of a language server plugin module */
+export interface Plugin {
+  name?: string
+  apiVersion?: number
+  transpilers?: Transpiler[]
+  /** Diagnostics to report along with TypeScript's */
+  getDiagnostics?(context: PluginDocumentContext): Diagnostic[] | undefined
+  /** More completion items; they get no `completionItem/resolve` */
+  getCompletions?(context: PluginDocumentContext, position: Position): CompletionItem[] | undefined
+  /** A Markdown section to add to the hover */
+  getHover?(context: PluginDocumentContext, position: Position): string | undefined
+  /** More code actions; each needs its `edit` or `command` up front */
+  getCodeActions?(context: PluginDocumentContext, range: Range, diagnostics: Diagnostic[]): CodeAction[] | undefined
+}
+
+export type PluginHook = "getDiagnostics" | "getCompletions" | "getHover" | "getCodeActions"
+
+/** Why a plugin module's default export can't be used, or undefined if it can */
+export function checkPlugin(plugin: unknown): string | undefined {
+  if (!plugin || typeof plugin !== "object") return "doesn't export a plugin object as default"
+  const { apiVersion } = plugin as Plugin
+  if (apiVersion === undefined) return
+  if (typeof apiVersion !== "number") return "has an apiVersion that isn't a number"
+  if (apiVersion > pluginApiVersion) {
+    return `needs plugin API version ${apiVersion}, but this language server supports up to ${pluginApiVersion}`
+  }
+  return
+}
+
+/**
+ * Results of a hook from each plugin that implements it. A plugin that
+ * throws is logged and skipped rather than failing the whole request.
+ */
+export function runPluginHooks<T>(
+  plugins: readonly Plugin[],
+  hook: PluginHook,
+  logger: Console | RemoteConsole,
+  call: (plugin: Plugin) => T | undefined,
+): T[] {
+  const results: T[] = []
+  for (const plugin of plugins) {
+    // Hooks are only part of versioned plugins
+    if (!plugin.apiVersion || !plugin[hook]) continue
+    try {
+      const result = call(plugin)
+      if (result !== undefined) results.push(result)
+    } catch (e) {
+      logger.error(`Plugin ${plugin.name ?? "(unnamed)"} failed in ${hook}: ${e}`)
+    }
+  }
+  return results
+}
@@ -0,0 +1,42 @@
+import type { SelectionRange } from 'vscode-languageserver';
+import type { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { getExtents, type CivetChild, type CivetNode } from './ast.mjs';
+
+/**
+ * Selection ranges growing from the token at each position out through
+ * its ancestors in the Civet AST, following the `parent` pointers.
+ */
+export function getSelectionRanges(ast: CivetChild, document: TextDocument, positions: Position[]): SelectionRange[] {
+  const source = document.getText()
+  const extents = getExtents(ast, source)
+  const leaves = [...extents].filter(([node]) => "$loc" in node)
+
+  return positions.map((position) => {
+    const offset = document.offsetAt(position)
+    // Prefer the token the cursor is in, then one it touches
+    const [leaf] =
+      leaves.find(([, [start, end]]) => start <= offset && offset < end) ??
+      leaves.find(([, [, end]]) => end === offset) ??
+      []
+
+    const spans: [number, number][] = []
+    for (let node: CivetNode | undefined = leaf; node; node = node.parent) {
+      const extent = extents.get(node)
+      if (!extent) continue
+      const last = spans.at(-1)
+      if (last && (extent[0] > last[0] || extent[1] < last[1])) continue
+      if (last && extent[0] === last[0] && extent[1] === last[1]) continue
+      spans.push(extent)
+    }
+
+    let range: SelectionRange = { range: { start: position, end: position } }
+    let parent: SelectionRange | undefined
+    for (const [start, end] of spans.reverse()) {
+      parent = range = {
+        range: { start: document.positionAt(start), end: document.positionAt(end) },
+        ...(parent && { parent }),
+      }
+    }
+    return range
+  })
+}
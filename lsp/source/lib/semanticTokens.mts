@@ -0,0 +1,208 @@
+import type { Classifications } from 'typescript';
+import {
+  SemanticTokensBuilder,
+  type Range,
+  type SemanticTokens,
+  type SemanticTokensLegend,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLeaves, type CivetChild } from './ast.mjs';
+import { remapPosition, type SourcemapLines } from './util.mjs';
+
+// The first entries must stay in the order of TypeScript's internal `TokenType` enum
+// (services/classifier2020.ts) so encoded classifications index straight into the legend.
+// https://github.com/microsoft/vscode/blob/main/extensions/typescript-language-features/src/languageFeatures/semanticTokens.ts
+const tokenTypes = [
+  'class',
+  'enum',
+  'interface',
+  'namespace',
+  'typeParameter',
+  'type',
+  'parameter',
+  'variable',
+  'enumMember',
+  'property',
+  'function',
+  'method',
+  // Civet-only
+  'operator',
+  'keyword',
+] as const
+
+// Same order as TypeScript's `TokenModifier` enum
+const tokenModifiers = [
+  'declaration',
+  'static',
+  'async',
+  'readonly',
+  'defaultLibrary',
+  'local',
+] as const
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+  tokenTypes: [...tokenTypes],
+  tokenModifiers: [...tokenModifiers],
+}
+
+const operatorType = tokenTypes.indexOf('operator')
+const keywordType = tokenTypes.indexOf('keyword')
+
+// TypeScript packs the token type and modifiers into a single number
+const typeOffset = 8
+const modifierMask = (1 << typeOffset) - 1
+
+export interface SemanticToken {
+  line: number
+  character: number
+  length: number
+  tokenType: number
+  tokenModifiers: number
+}
+
+/**
+ * Convert TypeScript's encoded 2020 semantic classifications into tokens.
+ *
+ * When `sourcemapLines` is given, `document` is the transpiled document and each
+ * span is mapped back into `sourceDocument`. Spans that don't map onto identical
+ * source text (helpers, refs, expanded shorthands) are dropped.
+ */
+export function convertClassifications(
+  classifications: Classifications,
+  document: TextDocument,
+  sourceDocument: TextDocument = document,
+  sourcemapLines?: SourcemapLines,
+): SemanticToken[] {
+  const tokens: SemanticToken[] = []
+  const { spans } = classifications
+
+  for (let i = 0; i < spans.length; i += 3) {
+    const offset = spans[i], length = spans[i + 1], classification = spans[i + 2]
+    const tokenType = (classification >> typeOffset) - 1
+    if (tokenType < 0 || length <= 0) continue
+
+    let start = document.positionAt(offset)
+    const end = document.positionAt(offset + length)
+    // Semantic tokens can't span lines
+    if (start.line !== end.line) continue
+
+    if (sourcemapLines) {
+      const text = document.getText({ start, end })
+      start = remapPosition(start, sourcemapLines)
+      const sourceText = sourceDocument.getText({
+        start,
+        end: { line: start.line, character: start.character + length },
+      })
+      if (sourceText !== text) continue
+    }
+
+    tokens.push({
+      line: start.line,
+      character: start.character,
+      length,
+      tokenType,
+      tokenModifiers: classification & modifierMask,
+    })
+  }
+
+  return tokens
+}
+
+const punctuationOperator = /^[-+*\/%&|^!~<>=?:.]+$/
+const wordOperator = /^[a-z]+$/
+// Comments (`#`, `//`, `/* */`, `###`) and strings, whose words aren't operators
+const commentOrString = /###[^]*?###|\/\*[^]*?\*\/|\/\/.*|(?<![^\s])#(?!\S).*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/g
+
+/**
+ * Classify the tokens that only exist in Civet: operators that get rewritten
+ * (`:=`, `is`, `and`) and syntax that is consumed by the parser without being
+ * emitted at all (`|>`, `&`, `then`). With a `range`, only leaves overlapping
+ * it are classified.
+ */
+export function getCivetTokens(ast: CivetChild, document: TextDocument, range?: Range): SemanticToken[] {
+  const tokens: SemanticToken[] = []
+  const source = document.getText()
+  // Blanked out, keeping offsets, so that their words are never classified
+  const code = source.replace(commentOrString, (match) => " ".repeat(match.length))
+  const rangeStart = range ? document.offsetAt(range.start) : 0
+  const rangeEnd = range ? document.offsetAt(range.end) : source.length
+  // Several leaves can point at the same source (`:=` is both `const` and `=`)
+  const classified = new Set<number>()
+
+  function classify(pos: number, end: number) {
+    for (const { 0: chunk, index } of code.slice(pos, end).matchAll(/\S+/g)) {
+      const offset = pos + index!
+      if (classified.has(offset)) continue
+      let tokenType
+      if (chunk === '@' || wordOperator.test(chunk)) {
+        tokenType = keywordType
+      } else if (punctuationOperator.test(chunk)) {
+        tokenType = operatorType
+      } else {
+        continue
+      }
+      classified.add(offset)
+      const { line, character } = document.positionAt(offset)
+      tokens.push({ line, character, length: chunk.length, tokenType, tokenModifiers: 0 })
+    }
+  }
+
+  let covered = 0
+  for (const leaf of getLeaves(ast)) {
+    const { pos, length } = leaf.$loc
+    // Leaves come in source order
+    if (pos > rangeEnd) break
+    if (pos + length < rangeStart) {
+      covered = Math.max(covered, pos + length)
+      continue
+    }
+    // Source that the parser consumed but didn't emit
+    if (pos > covered) {
+      classify(covered, pos)
+    }
+    covered = Math.max(covered, pos + length)
+
+    const text = source.slice(pos, pos + length), trimmed = text.trim()
+    // Emitted unchanged, so TypeScript (or the grammar) already knows about it
+    if (!trimmed || trimmed === leaf.token?.trim() || /['"`]/.test(text)) continue
+    if (trimmed === '@' || wordOperator.test(trimmed) || punctuationOperator.test(trimmed)) {
+      classify(pos, pos + length)
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Encode tokens into the relative LSP format, optionally limited to `range`.
+ * Tokens are sorted and overlapping ones are dropped, preferring TypeScript's
+ * classifications, which are expected to come first in `tokens`.
+ */
+export function encodeSemanticTokens(tokens: SemanticToken[], range?: Range): SemanticTokens {
+  const sorted = tokens
+    .map((token, index) => ({ token, index }))
+    .sort((a, b) =>
+      a.token.line - b.token.line ||
+      a.token.character - b.token.character ||
+      a.index - b.index
+    )
+    .map(({ token }) => token)
+
+  const builder = new SemanticTokensBuilder()
+  let lastLine = -1, lastEnd = 0
+  for (const token of sorted) {
+    const { line, character, length, tokenType, tokenModifiers } = token
+    if (range) {
+      if (line < range.start.line || line > range.end.line) continue
+      if (line === range.start.line && character + length <= range.start.character) continue
+      if (line === range.end.line && character >= range.end.character) continue
+    }
+    if (line === lastLine && character < lastEnd) continue
+
+    builder.push(line, character, length, tokenType, tokenModifiers)
+    lastLine = line
+    lastEnd = character + length
+  }
+
+  return builder.build()
+}
@@ -0,0 +1,55 @@
+import type ts from 'typescript';
+import type { Position } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { fileURLToPath } from 'url';
+import type { ResolvedService } from './typescript-service.mjs';
+import { findNode, forwardMap } from './util.mjs';
+
+const invoked: ts.SignatureHelpTriggerReason = { kind: 'invoked' }
+
+/**
+ * Signature help after a space that follows a callee, as in `foo |`, which
+ * TypeScript can't see as a call. With an argument after it (`foo a`), the
+ * call starts at the end of the callee in the transpiled output. A bare
+ * callee only becomes a call once an argument is typed, so if it's callable,
+ * ask about a scratch copy of the output with an empty call in its place.
+ */
+export function getImplicitCallSignatureHelp(
+  service: ResolvedService,
+  document: TextDocument,
+  position: Position
+): ts.SignatureHelpItems | undefined {
+  const sourcePath = fileURLToPath(document.uri)
+  const transpiledPath = service.getTranspiledFileName(sourcePath)
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta?.transpiledDoc || !meta.sourcemapLines) return
+
+  const before = document.getText({ start: { line: position.line, character: 0 }, end: position })
+  const callee = before.match(/[\w$)\]]\s+$/)
+  if (!callee) return
+
+  // The callee's last character is copied as is, unlike the space after it
+  const calleeEnd = meta.transpiledDoc.offsetAt(forwardMap(meta.sourcemapLines, {
+    line: position.line,
+    character: callee.index!,
+  })) + 1
+  const code = meta.transpiledDoc.getText()
+  if (code.slice(calleeEnd, calleeEnd + 1) === '(') {
+    return service.getSignatureHelpItems(transpiledPath, calleeEnd + 1, { triggerReason: invoked })
+  }
+  if (!isCallable(service, transpiledPath, calleeEnd - 1)) return
+
+  const withCall = code.slice(0, calleeEnd) + '()' + code.slice(calleeEnd)
+  return service.withScratchFile(transpiledPath, withCall, (scratch, scratchPath) =>
+    scratch.getSignatureHelpItems(scratchPath, calleeEnd + 1, { triggerReason: invoked })
+  )
+}
+
+/** Whether the expression ending at `offset` has call signatures */
+function isCallable(service: ResolvedService, fileName: string, offset: number): boolean {
+  const program = service.getProgram()
+  const sourceFile = program?.getSourceFile(fileName)
+  if (!program || !sourceFile) return false
+  const node = findNode(sourceFile, offset)
+  return program.getTypeChecker().getTypeAtLocation(node).getCallSignatures().length > 0
+}
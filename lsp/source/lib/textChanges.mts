@@ -0,0 +1,73 @@
+import type ts from 'typescript';
+import { TextEdit, type Position } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { remapPosition, type SourcemapLines } from './util.mjs';
+
+// A line holding nothing but a directive string, like `"civet coffeeCompat"`
+const directiveLine = /^\s*(["'])[^"'\n]*\1\s*;?\s*$/
+const blankOrCommentLine = /^\s*(?:(?:\/\/|#(?![!#])).*)?$/
+
+/**
+ * Where code can go at the top of a source file: after a shebang and any
+ * directive prologue. The compiler drops `"civet ..."` directives from its
+ * output, so the top of the transpiled file is below them in the source, and
+ * anything inserted above them would stop them being directives.
+ */
+export function getPrologueEnd(document: TextDocument): Position {
+  let end: Position = { line: 0, character: 0 }
+  for (let line = 0; line < document.lineCount; line++) {
+    const text = document.getText({
+      start: { line, character: 0 },
+      end: { line: line + 1, character: 0 },
+    }).replace(/\r?\n$/, "")
+    if (line === 0 && text.startsWith("#!") || directiveLine.test(text)) {
+      end = { line: line + 1, character: 0 }
+    } else if (!blankOrCommentLine.test(text)) {
+      break
+    }
+  }
+  return end
+}
+
+/**
+ * Map a TextChange in a transpiled document back into its source document.
+ * Only changes whose span covers identical text on both sides are kept;
+ * anything else would be written over the wrong part of the source.
+ */
+export function remapTextChange(
+  change: ts.TextChange,
+  transpiledDoc: TextDocument,
+  sourceDoc: TextDocument,
+  sourcemapLines: SourcemapLines
+): TextEdit | undefined {
+  const { span, newText } = change
+  const start = transpiledDoc.positionAt(span.start)
+  const end = transpiledDoc.positionAt(span.start + span.length)
+
+  // Insertions at the top of the file (imports) land at the top of the
+  // source, below its prologue
+  if (span.start === 0 && span.length === 0) {
+    const position = getPrologueEnd(sourceDoc)
+    // A prologue without a final newline
+    if (position.line >= sourceDoc.lineCount) {
+      return TextEdit.insert(sourceDoc.positionAt(sourceDoc.getText().length), "\n" + newText)
+    }
+    return TextEdit.insert(position, newText)
+  }
+
+  const sourceStart = remapPosition(start, sourcemapLines)
+  const sourceEnd = span.length ? remapPosition(end, sourcemapLines) : sourceStart
+
+  if (transpiledDoc.getText({ start, end }) !== sourceDoc.getText({ start: sourceStart, end: sourceEnd })) {
+    return
+  }
+  if (!span.length) {
+    // Nothing to compare for an insertion, so anchor on the character that follows it
+    const next = (position: Position) => ({ line: position.line, character: position.character + 1 })
+    if (transpiledDoc.getText({ start, end: next(start) }) !== sourceDoc.getText({ start: sourceStart, end: next(sourceStart) })) {
+      return
+    }
+  }
+
+  return TextEdit.replace({ start: sourceStart, end: sourceEnd }, newText)
+}
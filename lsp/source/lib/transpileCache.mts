@@ -0,0 +1,176 @@
+import { createHash } from "crypto"
+import fs from "fs"
+import path from "path"
+import type { ParseError } from "@danielx/civet"
+import type { RemoteConsole } from "vscode-languageserver"
+import type { SourcemapLines } from "./util.mjs"
+
+/** A transpiled file as the host keeps it */
+export interface CachedTranspile {
+  code: string
+  sourcemapLines: SourcemapLines | undefined
+  errors: (Error | ParseError)[] | undefined
+}
+
+// What's written to disk: errors lose their prototype, so keep what
+// diagnostics show
+interface CacheEntry {
+  code: string
+  sourcemapLines?: SourcemapLines | undefined
+  errors?: { name: string, message: string, [key: string]: unknown }[] | undefined
+}
+
+export interface TranspileCacheOptions {
+  /** Cache directory, relative to the project; default `node_modules/.cache/civet-language-server` */
+  directory?: string
+  /** Bytes to keep before dropping the least recently used entries; default 50 MB */
+  maxSize?: number
+}
+
+export interface TranspileCache {
+  /**
+   * Key of a file's transpiled output, from everything that affects it:
+   * the compiler and its options, and the file's name and content
+   */
+  getKey(compilerKey: string, fileName: string, source: string): string
+  get(key: string): CachedTranspile | undefined
+  set(key: string, transpiled: CachedTranspile): void
+}
+
+/**
+ * The part of cache keys that identifies the compiler and its options.
+ * Linked or locally built compilers keep their version while their output
+ * changes, so this includes where the compiler's main file is and when it
+ * last changed.
+ */
+export function getCompilerKey(version: string, mainPath: string, options: unknown): string {
+  let mtime: number | undefined
+  try {
+    mtime = fs.statSync(mainPath).mtimeMs
+  } catch {}
+  return JSON.stringify({ civet: version, mainPath, mtime, options })
+}
+
+const defaultDirectory = "node_modules/.cache/civet-language-server"
+const defaultMaxSize = 50 * 1024 * 1024
+
+/**
+ * On-disk cache of transpiled files, so reopening a workspace doesn't
+ * transpile every file again. Entries are JSON files named by key, and
+ * the least recently used ones are dropped once the cache outgrows
+ * `maxSize`. Reading and writing are best effort: a cache that can't be
+ * used just misses.
+ */
+export function TranspileCache(
+  projectPath: string,
+  options: TranspileCacheOptions = {},
+  logger: Console | RemoteConsole = console,
+): TranspileCache {
+  const directory = path.resolve(projectPath, options.directory ?? defaultDirectory)
+  const maxSize = options.maxSize ?? defaultMaxSize
+
+  // Size and last use of each entry, read from the directory when first needed
+  let entries: Map<string, { size: number, time: number }> | undefined
+  let totalSize = 0
+
+  function getEntries() {
+    if (entries) return entries
+    entries = new Map()
+    totalSize = 0
+    let names: string[] = []
+    try {
+      names = fs.readdirSync(directory).filter((name) => name.endsWith(".json"))
+    } catch {}
+    for (const name of names) {
+      try {
+        const { size, mtimeMs } = fs.statSync(path.join(directory, name))
+        entries.set(name, { size, time: mtimeMs })
+        totalSize += size
+      } catch {}
+    }
+    return entries
+  }
+
+  function remove(name: string) {
+    const entry = getEntries().get(name)
+    if (!entry) return
+    entries!.delete(name)
+    totalSize -= entry.size
+    try {
+      fs.rmSync(path.join(directory, name), { force: true })
+    } catch {}
+  }
+
+  function prune() {
+    if (totalSize <= maxSize) return
+    const byAge = Array.from(getEntries()).sort(([, a], [, b]) => a.time - b.time)
+    for (const [name] of byAge) {
+      if (totalSize <= maxSize) break
+      remove(name)
+    }
+  }
+
+  return {
+    getKey(compilerKey: string, fileName: string, source: string): string {
+      // Errors mention the file name
+      return createHash("sha256")
+        .update(compilerKey).update("\0")
+        .update(fileName).update("\0")
+        .update(source)
+        .digest("hex")
+    },
+    get(key: string): CachedTranspile | undefined {
+      const name = key + ".json"
+      const entry = getEntries().get(name)
+      if (!entry) return
+
+      const fileName = path.join(directory, name)
+      let cached: CacheEntry
+      try {
+        cached = JSON.parse(fs.readFileSync(fileName, "utf8"))
+      } catch (e) {
+        logger.info("Dropping unreadable transpile cache entry " + fileName)
+        remove(name)
+        return
+      }
+
+      // Mark as recently used, across restarts too
+      entry.time = Date.now()
+      try {
+        const now = new Date(entry.time)
+        fs.utimesSync(fileName, now, now)
+      } catch {}
+
+      return {
+        code: cached.code,
+        sourcemapLines: cached.sourcemapLines,
+        errors: cached.errors?.map(({ message, ...rest }) => Object.assign(new Error(message), rest)),
+      }
+    },
+    set(key: string, { code, sourcemapLines, errors }: CachedTranspile): void {
+      const name = key + ".json"
+      const cached: CacheEntry = {
+        code,
+        sourcemapLines,
+        errors: errors?.map((error) => ({ ...error, name: error.name, message: error.message })),
+      }
+      const content = JSON.stringify(cached)
+      const size = Buffer.byteLength(content)
+      // Bigger than the whole cache: not worth evicting everything else for
+      if (size > maxSize) return
+
+      try {
+        fs.mkdirSync(directory, { recursive: true })
+        fs.writeFileSync(path.join(directory, name), content)
+      } catch (e) {
+        logger.info("Can't write transpile cache entry in " + directory + ": " + e)
+        return
+      }
+      const previous = getEntries().get(name)
+      if (previous) totalSize -= previous.size
+      entries!.set(name, { size, time: Date.now() })
+      totalSize += size
+      prune()
+    },
+  }
+}
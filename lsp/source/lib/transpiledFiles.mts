@@ -0,0 +1,118 @@
+import type ts from "typescript"
+
+// How transpiled files look to TypeScript, shared by the language server
+// and the tsserver plugin
+
+// `foo.civet` is known to TypeScript as `foo.civet.tsx`
+export const civetTarget = ".tsx" as ts.Extension
+
+/**
+ * Returns the extension of the file including the dot.
+ * @example
+ * getExtension('foo/bar/baz.js') // => '.js'
+ * @example
+ * getExtension('foo/bar/baz') // => ''
+ * @example
+ * getExtension('foo/bar/baz.') // => ''
+ */
+export function getExtensionFromPath(path: string): string {
+  const match = path.match(lastExtension)
+  if (!match) return ""
+  return match[0]
+}
+
+// Regex to match last extension including dot
+const lastExtension = /(?:\.(?:[^./]+))?$/
+const lastTwoExtensions = /(\.[^./]*)(\.[^./]*)$/
+
+/**
+ * Returns the last two extensions of a path.
+ *
+ * @example
+ * getLastTwoExtensions('foo/bar/baz.js') // => undefined
+ * @example
+ * getLastTwoExtensions('foo/bar/baz') // => undefined
+ * @example
+ * getLastTwoExtensions('foo/bar/baz.civet.ts') // => ['.civet', '.ts']
+ */
+export function getTranspiledExtensionsFromPath(path: string): [string, string] | undefined {
+  const match = path.match(lastTwoExtensions)
+  if (!match) return
+
+  return [match[1], match[2]]
+}
+
+/**
+ * Removes the last extension from a path.
+ * @example
+ * removeExtension('foo/bar/baz.js') // => 'foo/bar/baz'
+ * @example
+ * removeExtension('foo/bar/baz') // => 'foo/bar/baz'
+ * @example
+ * removeExtension('foo/bar/baz.') // => 'foo/bar/baz.'
+ * @example
+ * removeExtension('foo/bar/baz.civet.ts') // => 'foo/bar/baz.civet'
+ * @example
+ * removeExtension('foo/bar.js/baz') // => 'foo/bar.js/baz'
+ */
+export function removeExtension(path: string) {
+  return path.replace(/\.[^\/.]+$/, "")
+}
+
+// Incremental snapshot example from vue language tools
+// https://github.com/vuejs/language-tools/blob/5607f45835ab85e0b5a0747614a4ed9989a28cec/packages/language-core/src/virtualFile/computedFiles.ts#L218
+export function fullDiffTextChangeRange(oldText: string, newText: string): ts.TextChangeRange | undefined {
+  const oldTextLength = oldText.length,
+    newTextLength = newText.length,
+    minLength = Math.min(oldTextLength, newTextLength);
+
+  for (let start = 0; start < minLength; start++) {
+    if (oldText[start] !== newText[start]) {
+      let end = oldTextLength;
+      let stop = minLength - start;
+      for (let i = 0; i < stop; i++) {
+        if (oldText[oldTextLength - i - 1] !== newText[newTextLength - i - 1]) {
+          break;
+        }
+        end--;
+      }
+
+      let length = end - start;
+      let newLength = length + (newTextLength - oldTextLength);
+      if (newLength < 0) {
+        length -= newLength;
+        newLength = 0;
+      }
+
+      return {
+        span: { start, length },
+        newLength,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+export const Snap = (newText: string) => {
+  const changeRanges = new Map<ts.IScriptSnapshot, ts.TextChangeRange | undefined>();
+
+  const snapshot: ts.IScriptSnapshot = {
+    getText: (start, end) => newText.slice(start, end),
+    getLength: () => newText.length,
+    getChangeRange(oldSnapshot) {
+      if (!changeRanges.has(oldSnapshot)) {
+        changeRanges.set(oldSnapshot, undefined);
+        const oldText = oldSnapshot.getText(0, oldSnapshot.getLength());
+        const changeRange = fullDiffTextChangeRange(oldText, newText);
+        if (changeRange) {
+          changeRanges.set(oldSnapshot, changeRange);
+        }
+      }
+
+      return changeRanges.get(oldSnapshot);
+    },
+  };
+
+  return snapshot as ts.IScriptSnapshot;
+}
@@ -0,0 +1,280 @@
+/**
+ * TypeScript server plugin, published as `@danielx/civet/ts-plugin`, so that
+ * `.ts` files edited with the stock TypeScript server understand imports of
+ * `.civet` files. Enable it in tsconfig.json:
+ *
+ * ```json
+ * { "compilerOptions": { "plugins": [{ "name": "@danielx/civet/ts-plugin" }] } }
+ * ```
+ *
+ * Imported `.civet` files become virtual `foo.civet.tsx` files, just like in
+ * the language server, so TypeScript sees their types. Definitions in them
+ * are mapped back to the `.civet` source, and `.civet` files that don't
+ * compile are reported where they are imported.
+ *
+ * TypeScript only resolves imports to `.tsx` files with `jsx` set, so when
+ * tsconfig.json leaves `jsx` unset, the plugin sets it to `preserve` for the
+ * whole project. The editor then accepts JSX in the project's own `.tsx`
+ * files, which `tsc` would reject; builds are unaffected, as `tsc` doesn't
+ * load plugins.
+ */
+
+import path from "path"
+import type ts from "typescript"
+import Civet, { type CompileOptions, type ParseError, type SourceMap } from "@danielx/civet"
+import CivetConfig from "@danielx/civet/config"
+import { remapPosition, type SourcemapLines } from "@danielx/civet/ts-diagnostic"
+import { civetTarget, getTranspiledExtensionsFromPath, removeExtension, Snap } from "./transpiledFiles.mjs"
+
+type TypeScript = typeof ts
+
+// A transpiled `.civet` file
+interface CivetFile {
+  snapshot: ts.IScriptSnapshot
+  source: string
+  code: string
+  sourcemapLines: SourcemapLines | undefined
+  errors: ParseError[]
+}
+
+// Not in the public types, but how tsserver notices a project changed
+interface DirtyableProject {
+  markAsDirty?(): void
+}
+
+function isVirtualPath(fileName: string) {
+  const [extension, target] = getTranspiledExtensionsFromPath(fileName) ?? []
+  return extension === ".civet" && target === civetTarget
+}
+
+// Offsets of the start of each line
+function getLineStarts(text: string): number[] {
+  const starts = [0]
+  for (const match of text.matchAll(/\r?\n/g)) {
+    starts.push(match.index + match[0].length)
+  }
+  return starts
+}
+
+function offsetAt(text: string, line: number, character: number): number {
+  const starts = getLineStarts(text)
+  if (line >= starts.length) return text.length
+  const lineEnd = line + 1 < starts.length ? starts[line + 1]! : text.length
+  return Math.min(starts[line]! + character, lineEnd)
+}
+
+function positionAt(text: string, offset: number): { line: number, character: number } {
+  const starts = getLineStarts(text)
+  let line = 0
+  while (line + 1 < starts.length && starts[line + 1]! <= offset) line++
+  return { line, character: offset - starts[line]! }
+}
+
+function init({ typescript: ts }: { typescript: TypeScript }): ts.server.PluginModule {
+  function create(info: ts.server.PluginCreateInfo): ts.LanguageService {
+    const { languageService, languageServiceHost: host, project, serverHost } = info
+    const log = (message: string) => project.projectService.logger.info(`[civet] ${message}`)
+
+    let parseOptions: NonNullable<CompileOptions["parseOptions"]> = {}
+    // Keyed by virtual path; versions outlive the transpiled files so
+    // TypeScript notices when a file is transpiled again
+    const files = new Map<string, CivetFile>()
+    const versions = new Map<string, number>()
+    const watchers = new Map<string, ts.FileWatcher>()
+
+    function invalidate(fileNames: Iterable<string>) {
+      for (const fileName of fileNames) {
+        files.delete(fileName)
+        versions.set(fileName, (versions.get(fileName) ?? 0) + 1)
+      }
+      ;(project as DirtyableProject).markAsDirty?.()
+      project.refreshDiagnostics()
+    }
+
+    CivetConfig.findConfig(project.getCurrentDirectory())
+      .then((configPath) => configPath ? CivetConfig.loadConfig(configPath) : undefined)
+      .then((config) => {
+        if (!config?.parseOptions) return
+        parseOptions = config.parseOptions
+        invalidate([...files.keys()])
+      })
+      .catch((e) => log(`Error loading Civet config: ${e}`))
+
+    function getFile(fileName: string): CivetFile | undefined {
+      let file = files.get(fileName)
+      if (file) return file
+
+      const civetPath = removeExtension(fileName)
+      const source = serverHost.readFile(civetPath)
+      if (source === undefined) return
+
+      if (!watchers.has(civetPath) && serverHost.watchFile) {
+        watchers.set(civetPath, serverHost.watchFile(civetPath, () => invalidate([fileName])))
+      }
+
+      const errors: ParseError[] = []
+      let code = "", sourcemapLines
+      const options = {
+        parseOptions,
+        filename: civetPath,
+        sourceMap: true,
+        errors,
+        // Keep going past parse errors so the rest of the file still has types
+        recover: true,
+        sync: true,
+        comptime: false,
+      }
+      try {
+        // Older Civet types don't know `sync`
+        const result = Civet.compile(source, options) as unknown as { code: string, sourceMap?: SourceMap }
+        code = result.code
+        const { sourceMap } = result
+        sourcemapLines = sourceMap?.lines ?? sourceMap?.data?.lines // older Civet
+      } catch (e) {
+        errors.push(e as ParseError)
+      }
+      file = { snapshot: Snap(code), source, code, sourcemapLines, errors }
+      files.set(fileName, file)
+      return file
+    }
+
+    // `./foo.civet` imports, or `./foo.js` with `rewriteCivetImports: ".js"`
+    function resolveCivetImport(name: string, containingFile: string): string | undefined {
+      if (!/^\.\.?(?:\/|$)/.test(name)) return
+      const { rewriteCivetImports } = parseOptions
+      let civetName
+      if (name.endsWith(".civet")) {
+        civetName = name
+      } else if (rewriteCivetImports && name.endsWith(rewriteCivetImports)) {
+        civetName = name.slice(0, -rewriteCivetImports.length) + ".civet"
+      } else {
+        return
+      }
+      const civetPath = path.resolve(path.dirname(containingFile), civetName)
+      return serverHost.fileExists(civetPath) ? civetPath + civetTarget : undefined
+    }
+
+    // Virtual files
+
+    const { getScriptSnapshot, getScriptVersion, fileExists } = host
+    host.getScriptSnapshot = (fileName) =>
+      isVirtualPath(fileName) ? getFile(fileName)?.snapshot : getScriptSnapshot.call(host, fileName)
+    host.getScriptVersion = (fileName) =>
+      isVirtualPath(fileName) ? String(versions.get(fileName) ?? 0) : getScriptVersion.call(host, fileName)
+    host.fileExists = (fileName) =>
+      isVirtualPath(fileName) ? serverHost.fileExists(removeExtension(fileName)) : fileExists.call(host, fileName)
+
+    // `jsx: preserve` unless set, as explained above
+    const { getCompilationSettings } = host
+    let settings: ts.CompilerOptions | undefined, jsxSettings: ts.CompilerOptions | undefined
+    host.getCompilationSettings = () => {
+      const current = getCompilationSettings.call(host)
+      if (current.jsx !== undefined) return current
+      if (current !== settings) {
+        settings = current
+        jsxSettings = { ...current, jsx: ts.JsxEmit.Preserve }
+      }
+      return jsxSettings!
+    }
+
+    const { resolveModuleNameLiterals } = host
+    host.resolveModuleNameLiterals = (moduleLiterals, containingFile, redirectedReference, options, containingSourceFile, reusedNames) => {
+      const resolved = resolveModuleNameLiterals
+        ? resolveModuleNameLiterals.call(host, moduleLiterals, containingFile, redirectedReference, options, containingSourceFile, reusedNames)
+        : moduleLiterals.map(({ text }) =>
+          ts.resolveModuleName(text, containingFile, options, host, undefined, redirectedReference)
+        )
+      return resolved.map((resolution, i) => {
+        if (resolution.resolvedModule) return resolution
+        const resolvedFileName = resolveCivetImport(moduleLiterals[i]!.text, containingFile)
+        if (!resolvedFileName) return resolution
+        return {
+          ...resolution,
+          resolvedModule: { resolvedFileName, extension: civetTarget, isExternalLibraryImport: false },
+        }
+      })
+    }
+
+    // Language service results in `.civet` coordinates
+
+    function remapSpan(fileName: string, span: ts.TextSpan): ts.TextSpan {
+      const file = getFile(fileName)
+      if (!file) return span
+      const remap = (offset: number) => {
+        const { line, character } = remapPosition(positionAt(file.code, offset), file.sourcemapLines)
+        return offsetAt(file.source, line, character)
+      }
+      const start = remap(span.start)
+      return { start, length: Math.max(0, remap(span.start + span.length) - start) }
+    }
+
+    function remapDefinition<T extends ts.DocumentSpan>(definition: T): T {
+      const { fileName, textSpan, contextSpan } = definition
+      if (!isVirtualPath(fileName)) return definition
+      return {
+        ...definition,
+        fileName: removeExtension(fileName),
+        textSpan: remapSpan(fileName, textSpan),
+        contextSpan: contextSpan && remapSpan(fileName, contextSpan),
+      }
+    }
+
+    // `.civet` files that failed to compile, at the imports of them
+    function getImportDiagnostics(fileName: string): ts.Diagnostic[] {
+      const sourceFile = languageService.getProgram()?.getSourceFile(fileName)
+      if (!sourceFile) return []
+
+      const diagnostics: ts.Diagnostic[] = []
+      for (const statement of sourceFile.statements) {
+        if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue
+        const { moduleSpecifier } = statement
+        if (!moduleSpecifier || !ts.isStringLiteral(moduleSpecifier)) continue
+
+        const virtualPath = resolveCivetImport(moduleSpecifier.text, fileName)
+        const file = virtualPath ? getFile(virtualPath) : undefined
+        if (!file?.errors.length) continue
+        diagnostics.push({
+          file: sourceFile,
+          start: moduleSpecifier.getStart(sourceFile),
+          length: moduleSpecifier.getWidth(sourceFile),
+          category: ts.DiagnosticCategory.Error,
+          code: 0,
+          source: "civet",
+          messageText: `${moduleSpecifier.text} failed to compile: ${file.errors[0]!.message}`,
+        })
+      }
+      return diagnostics
+    }
+
+    const proxy: ts.LanguageService = Object.create(null)
+    for (const key of Object.keys(languageService) as (keyof ts.LanguageService)[]) {
+      const method = languageService[key] as Function
+      proxy[key] = ((...args: unknown[]) => method.apply(languageService, args)) as never
+    }
+
+    proxy.getSemanticDiagnostics = (fileName) => [
+      ...languageService.getSemanticDiagnostics(fileName),
+      ...getImportDiagnostics(fileName),
+    ]
+    proxy.getDefinitionAtPosition = (fileName, position) =>
+      languageService.getDefinitionAtPosition(fileName, position)?.map(remapDefinition)
+    proxy.getDefinitionAndBoundSpan = (fileName, position) => {
+      const result = languageService.getDefinitionAndBoundSpan(fileName, position)
+      if (!result?.definitions) return result
+      return { ...result, definitions: result.definitions.map(remapDefinition) }
+    }
+    proxy.getTypeDefinitionAtPosition = (fileName, position) =>
+      languageService.getTypeDefinitionAtPosition(fileName, position)?.map(remapDefinition)
+    proxy.dispose = () => {
+      for (const watcher of watchers.values()) watcher.close()
+      languageService.dispose()
+    }
+
+    log(`Plugin enabled for ${project.getProjectName()}`)
+    return proxy
+  }
+
+  return { create }
+}
+
+export default init
@@ -8,6 +8,7 @@ import type {
 } from "@danielx/civet"
 import BundledCivetModule from "@danielx/civet"
 import BundledCivetConfigModule from "@danielx/civet/config"
+import bundledCivetPkg from "@danielx/civet/package.json" with { type: 'json' }
 
 import ts from "typescript"
 const { version: typescriptVersion, JsxEmit, isExternalModuleNameRelative } = ts
@@ -20,6 +21,7 @@ import type {
 
 const {
   createCompilerHost,
+  createDocumentRegistry,
   createLanguageService,
   parseJsonConfigFileContent,
   readConfigFile,
@@ -29,21 +31,28 @@ const {
 import { createRequire } from "module"
 import { fileURLToPath, pathToFileURL } from "url"
 import { TextDocument } from "vscode-languageserver-textdocument"
+import type { CivetChild } from "./ast.mjs"
+import type { CivetOptions } from "./civetOptions.mjs"
+import { getComptimeProgram, getComptimeValue, type ComptimeBlock } from "./codeLens.mjs"
+import { checkPlugin, type Plugin, type PluginDocumentContext } from "./plugins.mjs"
+import { getCompilerKey, TranspileCache, type CachedTranspile, type TranspileCacheOptions } from "./transpileCache.mjs"
+import { civetTarget, getExtensionFromPath, getTranspiledExtensionsFromPath, removeExtension, Snap } from "./transpiledFiles.mjs"
 
 // Import version from package.json
 import pkg from "../../package.json" with { type: 'json' }
-import { RemoteConsole } from "vscode-languageserver"
+import { RemoteConsole, type CancellationToken } from "vscode-languageserver"
 const { version } = pkg
 
 // HACK to get __dirname working in tests with ts-node
 // ts-node needs everything to be modules for .civet files to work
 // and modules don't have __dirname
-var dir: string
+var dir: string, serverPath: string
 try {
   dir = __dirname
+  serverPath = __filename
 } catch (e) {
   //@ts-ignore
-  dir = fileURLToPath(import.meta.url)
+  dir = serverPath = fileURLToPath(import.meta.url)
 }
 
 interface SourceMap {
@@ -66,9 +75,12 @@ export interface FileMeta {
 interface Host extends LanguageServiceHost {
   getMeta(path: string): FileMeta | undefined
   addOrUpdateDocument(doc: TextDocument): void
+  addProjectFile(path: string): void
+  getProjectVersion(): string
+  setCancellationToken(token: CancellationToken | undefined): void
 }
 
-interface Transpiler {
+export interface Transpiler {
   extension: string
   /**
    * The target extension of the transpiler (used to force module/commonjs via .mjs, .cjs, .mts, .cts, etc)
@@ -80,10 +92,21 @@ interface Transpiler {
     sourceMap?: SourceMap
     errors?: Error[]
   } | undefined
+  /**
+   * Everything besides the source that affects the output, like the compiler
+   * version and options. Only transpilers with one use the transpile cache.
+   */
+  cacheKey?: string
 }
 
-interface Plugin {
-  transpilers?: Transpiler[]
+// The language server's part of a Civet config file
+interface LanguageServerConfig {
+  languageServer?: {
+    /** Plugin modules: paths relative to the config file, or package names */
+    plugins?: string[]
+    /** Where and how much to cache transpiled files on disk, or `false` not to */
+    transpileCache?: TranspileCacheOptions | false
+  }
 }
 
 function TSHost(
@@ -92,6 +115,8 @@ function TSHost(
   baseHost: CompilerHost,
   transpilers: Map<string, Transpiler>,
   logger: Console | RemoteConsole = console,
+  rewriteCivetImports?: string,
+  transpileCache?: TranspileCache,
 ): Host {
   const { rootDir } = compilationSettings
   assert(rootDir, "Most have root dir for now")
@@ -104,14 +129,19 @@ function TSHost(
 
   let projectVersion = 0;
 
+  // Token of the request the language service is working on, if any
+  let cancellationToken: CancellationToken | undefined
+
   const resolutionCache: ts.ModuleResolutionCache = ts.createModuleResolutionCache(rootDir, (fileName) => fileName, compilationSettings);
 
   let self: Host;
 
   return self = Object.assign({}, baseHost, {
     getDefaultLibFileName(options: ts.CompilerOptions) {
-      // TODO: this might not be correct for dev dev/test envs
+      // Libs copied next to the bundled server (see build.sh)
       const result = path.join(dir, "lib", ts.getDefaultLibFileName(options))
+      // Otherwise TypeScript is installed alongside us (dev/test envs, `civet lspcheck`)
+      if (!sys.fileExists(result)) return ts.getDefaultLibFilePath(options)
       return result
     },
     getModuleResolutionCache() {
@@ -130,6 +160,19 @@ function TSHost(
         const { resolvedModule } = ts.resolveModuleName(name, containingFile, compilerOptions, self, resolutionCache) as ResolvedModuleWithFailedLookupLocations
         if (resolvedModule) return resolvedModule
 
+        // `rewriteCivetImports` compiled `./foo.civet` imports to `./foo.js`
+        const civetTranspiler = transpilers.get(".civet")
+        if (rewriteCivetImports && civetTranspiler && isExternalModuleNameRelative(name) && name.endsWith(rewriteCivetImports)) {
+          const civetPath = path.resolve(path.dirname(containingFile), name.slice(0, -rewriteCivetImports.length) + ".civet")
+          if (sys.fileExists(civetPath)) {
+            return {
+              resolvedFileName: civetPath + civetTranspiler.target,
+              extension: civetTranspiler.target,
+              isExternalLibraryImport: false,
+            }
+          }
+        }
+
         // get the transpiler for the extension
         const extension = getExtensionFromPath(name)
         let transpiler = transpilers.get(extension)
@@ -269,6 +312,23 @@ function TSHost(
 
       return
     },
+    /**
+     * Add a project file that isn't open, so that project-wide queries
+     * (like workspace symbols) see it. Transpiled files are read from disk
+     * on demand, just like files that get imported.
+     */
+    addProjectFile(path: string): void {
+      path = getCanonicalFileName(path)
+      const transpiledPath = getTranspiledPath(path)
+      if (transpiledPath === path) {
+        if (scriptFileNames.has(path)) return
+        scriptFileNames.add(path)
+      } else {
+        if (pathMap.has(transpiledPath)) return
+        initTranspiledDoc(transpiledPath)
+      }
+      projectVersion++
+    },
     getMeta(path: string) {
       const transpiledPath = getTranspiledPath(path)
       // This ensures that the transpiled meta data is created
@@ -279,6 +339,13 @@ function TSHost(
     getProjectVersion() {
       return projectVersion.toString();
     },
+    // TS asks for this once, when the language service is created
+    getCancellationToken(): ts.HostCancellationToken {
+      return { isCancellationRequested: () => !!cancellationToken?.isCancellationRequested }
+    },
+    setCancellationToken(token: CancellationToken | undefined) {
+      cancellationToken = token
+    },
     getCompilationSettings() {
       return compilationSettings;
     },
@@ -369,7 +436,10 @@ function TSHost(
 
       // The source document is ahead of the transpiled document
       if (source && sourceDocVersion > transpiledDoc.version) {
-        const transpiledCode = doTranspileAndUpdateMeta(transpiledDoc, sourceDocVersion, transpiler, sourcePath, source)
+        // Files from the file system are the ones transpiled again after a restart;
+        // open documents change with every keystroke
+        const cache = sourceDoc ? "read" : "readWrite"
+        const transpiledCode = doTranspileAndUpdateMeta(transpiledDoc, sourceDocVersion, transpiler, sourcePath, source, cache)
         if (transpiledCode !== undefined) {
           snapshot = Snap(transpiledCode)
         }
@@ -408,25 +478,32 @@ function TSHost(
     }
   }
 
-  function doTranspileAndUpdateMeta(transpiledDoc: TextDocument, version: number, transpiler: Transpiler, sourcePath: string, sourceCode: string): string | undefined {
-    // Definitely do not want to throw errors here, it can make TypeScript very unhappy if it can't get a snapshot/version
-    try {
-      var result = transpiler.compile(sourcePath, sourceCode)
-    } catch (e: unknown) {
-      // Add parse errors to meta
-      createOrUpdateMeta(sourcePath, transpiledDoc, undefined, [e as Error], true)
-      return
-    }
-
-    if (result) {
-      const { code: transpiledCode, sourceMap, errors } = result
-      const sourceMapLines = sourceMap?.lines ?? sourceMap?.data?.lines // older Civet
-      createOrUpdateMeta(sourcePath, transpiledDoc, sourceMapLines, errors, false)
-      TextDocument.update(transpiledDoc, [{ text: transpiledCode }], version)
+  function doTranspileAndUpdateMeta(transpiledDoc: TextDocument, version: number, transpiler: Transpiler, sourcePath: string, sourceCode: string, cache: "read" | "readWrite"): string | undefined {
+    const cacheKey = transpileCache && transpiler.cacheKey !== undefined
+      ? transpileCache.getKey(transpiler.cacheKey, sourcePath, sourceCode)
+      : undefined
+    let transpiled: CachedTranspile | undefined = cacheKey ? transpileCache!.get(cacheKey) : undefined
+
+    if (!transpiled) {
+      // Definitely do not want to throw errors here, it can make TypeScript very unhappy if it can't get a snapshot/version
+      try {
+        var result = transpiler.compile(sourcePath, sourceCode)
+      } catch (e: unknown) {
+        // Add parse errors to meta
+        createOrUpdateMeta(sourcePath, transpiledDoc, undefined, [e as Error], true)
+        return
+      }
+      if (!result) return
 
-      return transpiledCode
+      const { code, sourceMap, errors } = result
+      const sourcemapLines = sourceMap?.lines ?? sourceMap?.data?.lines // older Civet
+      transpiled = { code, sourcemapLines, errors }
+      if (cacheKey && cache === "readWrite") transpileCache!.set(cacheKey, transpiled)
     }
-    return
+
+    createOrUpdateMeta(sourcePath, transpiledDoc, transpiled.sourcemapLines, transpiled.errors, false)
+    TextDocument.update(transpiledDoc, [{ text: transpiled.code }], version)
+    return transpiled.code
   }
 
   function initTranspiledDoc(path: string) {
@@ -450,13 +527,104 @@ function TSHost(
   }
 }
 
+// The formatter's API, for Civet versions that have it
+interface CivetFormatOptions {
+  filename?: string | undefined
+  parseOptions?: CompileOptions["parseOptions"] | undefined
+  tab?: number | undefined
+  range?: [number, number] | undefined
+}
+type CivetFormat = (source: string, options?: CivetFormatOptions) => string
+
+/** A config file that failed to load */
+export interface ConfigError {
+  fileName: string
+  message: string
+  /** Where in the file, if known */
+  offset?: number | undefined
+}
+
+/** The files a service was configured from, for reloading it when they change */
+export interface ProjectConfig {
+  /** `tsconfig.json` and the configs it extends, whether they exist or not */
+  tsConfigFiles: string[]
+  /** Directories `findConfig` looked through for a Civet config, nearest first */
+  civetConfigDirs: string[]
+  errors: ConfigError[]
+}
+
+// Where a config error happened: Civet parse errors know their offset,
+// JSON.parse only says so in its message
+function getErrorOffset(e: unknown): number | undefined {
+  const error = e as { offset?: unknown, errors?: { offset?: unknown }[], message?: unknown }
+  const offset = error.offset ?? error.errors?.[0]?.offset
+  if (typeof offset === "number") return offset
+  const match = String(error.message).match(/at position (\d+)/)
+  if (match) return Number(match[1])
+  return
+}
+
+export interface CivetInfo {
+  version: string
+  /** package.json of the project's own Civet, undefined when using the bundled one */
+  packageJsonPath?: string
+  /** The compiler's main file; the language server's own when using the bundled one */
+  mainPath: string
+}
+
+/**
+ * Load the Civet compiler installed in the project, falling back to the one
+ * bundled with the extension. The project's modules are evicted from the
+ * require cache first so a reinstalled version gets picked up on reload.
+ */
+function loadCivet(projectURL: string, logger: Console | RemoteConsole) {
+  const projectRequire = createRequire(projectURL)
+  const civetPath = "@danielx/civet"
+
+  try {
+    projectRequire(`${civetPath}/lsp/package.json`)
+    logger.info("USING DEVELOPMENT VERSION OF CIVET -- BE SURE TO yarn build")
+  } catch (e) { }
+
+  try {
+    const packageJsonPath = projectRequire.resolve(`${civetPath}/package.json`)
+    const packageDir = path.dirname(packageJsonPath) + path.sep
+    for (const key of Object.keys(projectRequire.cache)) {
+      if (key.startsWith(packageDir)) delete projectRequire.cache[key]
+    }
+
+    const Civet: typeof BundledCivetModule = projectRequire(civetPath)
+    const CivetConfig: typeof BundledCivetConfigModule = projectRequire(`${civetPath}/config`)
+    const { version } = projectRequire(packageJsonPath)
+    const mainPath = projectRequire.resolve(civetPath)
+    logger.info(`LOADED PROJECT CIVET ${version}: ${packageDir} \n\n`)
+    return { Civet, CivetConfig, civetInfo: { version, packageJsonPath, mainPath } as CivetInfo }
+  } catch (e) {
+    logger.info("USING BUNDLED CIVET " + bundledCivetPkg.version)
+    return {
+      Civet: BundledCivetModule,
+      CivetConfig: BundledCivetConfigModule,
+      civetInfo: { version: bundledCivetPkg.version, mainPath: serverPath } as CivetInfo,
+    }
+  }
+}
+
 async function TSService(projectURL = "./", logger: Console | RemoteConsole = console) {
   logger.info("CIVET VSCODE PLUGIN " + version)
   logger.info("TYPESCRIPT " + typescriptVersion)
 
   const projectPath = fileURLToPath(projectURL)
   const tsConfigPath = `${projectPath}tsconfig.json`
-  const { config } = readConfigFile(tsConfigPath, sys.readFile)
+  const { config, error: tsConfigError } = readConfigFile(tsConfigPath, sys.readFile)
+  const configErrors: ConfigError[] = []
+  // A missing tsconfig.json is fine
+  if (tsConfigError && sys.fileExists(tsConfigPath)) {
+    configErrors.push({
+      fileName: tsConfigPath,
+      message: ts.flattenDiagnosticMessageText(tsConfigError.messageText, "\n"),
+      offset: tsConfigError.start,
+    })
+  }
 
   const existingOptions = {
     rootDir: projectPath,
@@ -467,6 +635,8 @@ async function TSService(projectURL = "./", logger: Console | RemoteConsole = co
     jsx: JsxEmit.Preserve,
   }
 
+  // Collects the configs that tsconfig.json extends
+  const extendedConfigCache = new Map<string, ts.ExtendedConfigCacheEntry>()
   const parsedConfig = parseJsonConfigFileContent(
     config,
     sys,
@@ -474,6 +644,8 @@ async function TSService(projectURL = "./", logger: Console | RemoteConsole = co
     existingOptions,
     tsConfigPath,
     undefined,
+    undefined,
+    extendedConfigCache,
   )
   logger.info("PARSED TSCONFIG\n " + parsedConfig + " " + "\n\n")
 
@@ -482,38 +654,20 @@ async function TSService(projectURL = "./", logger: Console | RemoteConsole = co
 
   const transpilerDefinitions = [{
     extension: ".civet" as const,
-    target: ".tsx" as ts.Extension,
+    target: civetTarget,
     compile: transpileCivet,
   }].map<[string, Transpiler]>(def => [def.extension, def])
 
   const transpilers = new Map<string, Transpiler>(transpilerDefinitions)
-  // TODO: May want to add transpiled files to fileNames
-  const host = TSHost(parsedConfig.options, parsedConfig.fileNames, baseHost, transpilers, logger)
-  const service = createLanguageService(host)
 
-  const projectRequire = createRequire(projectURL)
+  const { Civet, CivetConfig, civetInfo } = loadCivet(projectURL, logger)
 
-  // Use Civet from the project if present
-  let Civet = BundledCivetModule
-  let CivetConfig = BundledCivetConfigModule
-  const civetPath = "@danielx/civet"
-  try {
-    projectRequire(`${civetPath}/lsp/package.json`)
-    logger.info("USING DEVELOPMENT VERSION OF CIVET -- BE SURE TO yarn build")
-  } catch (e) { }
-  try {
-    Civet = projectRequire(civetPath)
-    CivetConfig = projectRequire(`${civetPath}/config`)
-    const CivetVersion = projectRequire(`${civetPath}/package.json`).version
-    logger.info(`LOADED PROJECT CIVET ${CivetVersion}: ${path.join(projectURL + " " + civetPath)} \n\n`)
-  } catch (e) {
-    logger.info("USING BUNDLED CIVET")
-  }
-
-  let civetConfig: CompileOptions = {}
+  let civetConfig: CompileOptions & LanguageServerConfig = {}
+  let civetConfigPath: string | undefined
   try {
     const configPath = await CivetConfig.findConfig(projectPath)
     if (configPath) {
+      civetConfigPath = configPath
       logger.info("Loading Civet config @ " + configPath)
       const config = await CivetConfig.loadConfig(configPath)
       logger.info("Found civet config!")
@@ -523,110 +677,326 @@ async function TSService(projectURL = "./", logger: Console | RemoteConsole = co
     }
   } catch (e) {
     logger.error("Error loading Civet config " + e)
+    if (civetConfigPath) {
+      configErrors.push({
+        fileName: civetConfigPath,
+        message: e instanceof Error ? e.message : String(e),
+        offset: getErrorOffset(e),
+      })
+    }
+  }
+
+  // `findConfig` walks up from the project until it finds a config,
+  // checking `.config` subdirectories too
+  const civetConfigDirs: string[] = []
+  for (let dir = path.resolve(projectPath); ; dir = path.dirname(dir)) {
+    civetConfigDirs.push(dir)
+    if (civetConfigPath && [dir, path.join(dir, ".config")].includes(path.dirname(civetConfigPath))) break
+    if (dir === path.dirname(dir)) break
   }
 
+  const { languageServer, ...civetCompileOptions } = civetConfig
+  transpilers.get(".civet")!.cacheKey = getCompilerKey(civetInfo.version, civetInfo.mainPath, civetCompileOptions)
+  const transpileCacheOptions = languageServer?.transpileCache
+  const transpileCache = transpileCacheOptions === false
+    ? undefined
+    : TranspileCache(projectPath, transpileCacheOptions, logger)
+
+  // TODO: May want to add transpiled files to fileNames
+  const host = TSHost(parsedConfig.options, parsedConfig.fileNames, baseHost, transpilers, logger, civetConfig.parseOptions?.rewriteCivetImports, transpileCache)
+  // Shared with scratch services (see withScratchFile)
+  const documentRegistry = createDocumentRegistry(sys.useCaseSensitiveFileNames, projectPath)
+  const service = createLanguageService(host, documentRegistry)
+
+  let projectFilesIncluded = false
+
+  const plugins: Plugin[] = []
+
+  // Raw Civet ASTs of open documents, keyed by uri
+  const astCache = new Map<string, { version: number, ast: CivetChild | undefined }>()
+  // Raw Civet ASTs from the latest transpile of each file, keyed by path,
+  // so getCivetAST doesn't parse (and recover) the same text again
+  const transpiledASTs = new Map<string, { source: string, ast: CivetChild }>()
+
   return Object.assign({}, service, {
     host,
+    /**
+     * Run language service calls for a request, which throw
+     * `ts.OperationCanceledException` once the request is cancelled.
+     */
+    withCancellation<T>(token: CancellationToken | undefined, f: () => T): T {
+      host.setCancellationToken(token)
+      try {
+        return f()
+      } finally {
+        host.setCancellationToken(undefined)
+      }
+    },
+    /**
+     * Ask a language service that sees `text` in place of `fileName`, such as
+     * code that hasn't been typed yet, without touching the project's files.
+     * The scratch copy gets a name of its own so it doesn't replace the
+     * file's parsed version, which the scratch service shares with the others.
+     */
+    withScratchFile<T>(fileName: string, text: string, f: (scratch: ts.LanguageService, scratchFileName: string) => T): T {
+      const scratchFileName = fileName.replace(/(\.[^./\\]+)$/, ".scratch$1")
+      const snapshot = ts.ScriptSnapshot.fromString(text)
+      const scratch = createLanguageService({
+        ...host,
+        getScriptFileNames: () => host.getScriptFileNames().filter((name) => name !== fileName).concat(scratchFileName),
+        getScriptSnapshot: (name) => name === scratchFileName ? snapshot : host.getScriptSnapshot(name),
+        getScriptVersion: (name) => name === scratchFileName ? "0" : host.getScriptVersion(name),
+      }, documentRegistry)
+      try {
+        return f(scratch, scratchFileName)
+      } finally {
+        scratch.dispose()
+      }
+    },
     getSourceFileName(fileName: string) {
       return remapFileName(fileName, transpilers)
     },
+    /** The name TSServer knows a source file by, e.g. `foo.civet.tsx` for `foo.civet` */
+    getTranspiledFileName(fileName: string) {
+      const transpiler = transpilers.get(getExtensionFromPath(fileName))
+      return transpiler ? fileName + transpiler.target : fileName
+    },
+    /**
+     * Files included by the project's tsconfig, counting files with a
+     * transpiler (`.civet` and plugin extensions) as well as TypeScript's own.
+     */
+    getProjectFileNames(): string[] {
+      const extraFileExtensions = Array.from(transpilers.keys(), (extension) => ({
+        extension,
+        isMixedContent: false,
+        scriptKind: ts.ScriptKind.Deferred,
+      }))
+      return parseJsonConfigFileContent(
+        config,
+        sys,
+        projectPath,
+        existingOptions,
+        tsConfigPath,
+        undefined,
+        extraFileExtensions,
+      ).fileNames
+    },
+    /**
+     * Add every project file to the language service, not just the open ones
+     * and what they import. Only done once per service, since it means
+     * transpiling the whole project.
+     */
+    includeProjectFiles(): void {
+      if (projectFilesIncluded) return
+      projectFilesIncluded = true
+      for (const fileName of this.getProjectFileNames()) {
+        host.addProjectFile(fileName)
+      }
+    },
+    getProjectConfig(): ProjectConfig {
+      return {
+        tsConfigFiles: [tsConfigPath, ...extendedConfigCache.keys()],
+        civetConfigDirs,
+        errors: configErrors,
+      }
+    },
+    /** The Civet compiler this service transpiles with */
+    getCivetInfo(): CivetInfo {
+      return civetInfo
+    },
+    getParseOptions() {
+      return civetConfig.parseOptions ?? {}
+    },
+    /**
+     * What the project's Civet knows about parse options, for editing
+     * directives and config files. Undefined if it's too old to say.
+     */
+    getCivetOptions(): CivetOptions | undefined {
+      const options = Civet as Partial<CivetOptions>
+      if (!options.parseOptionSpecs || !options.normalizeOptionName || !options.checkConfigOption) return
+      return options as CivetOptions
+    },
+    /**
+     * Parse a `.civet` document into a raw AST (with parent pointers) for
+     * editor features that need the Civet structure, not just the transpiled TS.
+     * Cached per document version; undefined if the document doesn't parse.
+     */
+    getCivetAST(document: TextDocument): CivetChild | undefined {
+      const cached = astCache.get(document.uri)
+      if (cached?.version === document.version) return cached.ast
+
+      const sourcePath = fileURLToPath(document.uri)
+      const transpiled = transpiledASTs.get(sourcePath)
+      let ast: CivetChild | undefined
+      if (transpiled?.source === document.getText()) {
+        ast = transpiled.ast
+      } else try {
+        ast = Civet.compile(document.getText(), {
+          ...civetConfig,
+          filename: sourcePath,
+          ast: "raw",
+          errors: [],
+          recover: true,
+          sync: true,
+          comptime: false,
+        }) as unknown as CivetChild
+      } catch (e) {
+        ast = undefined
+      }
+      astCache.set(document.uri, { version: document.version, ast })
+      return ast
+    },
+    /**
+     * Run a `comptime` block of a `.civet` file through the compiler's
+     * comptime evaluator, as if the file were compiled with comptime enabled.
+     * Resolves to the block's value as code; rejects with the first error.
+     */
+    async evaluateComptime(sourcePath: string, block: ComptimeBlock): Promise<string> {
+      const errors: ParseError[] = []
+      const options = {
+        ...civetConfig,
+        parseOptions: { ...civetConfig.parseOptions, comptime: true },
+        filename: sourcePath,
+        js: true,
+        errors,
+      }
+      // Async, so comptime blocks can await
+      const code = await Civet.compile(getComptimeProgram(block), options) as unknown as string
+      if (errors.length) throw errors[0]
+      return getComptimeValue(code) ?? "undefined"
+    },
+    /**
+     * Format a `.civet` document with `tab` spaces per indentation level
+     * (unless the Civet config sets `tab`), optionally only within a range.
+     * Undefined if the document doesn't parse, or the project's Civet
+     * doesn't have the formatter yet.
+     */
+    formatCivet(document: TextDocument, tab: number, range?: [number, number]): string | undefined {
+      const { format } = Civet as { format?: CivetFormat }
+      if (!format) return
+
+      const { parseOptions } = civetConfig
+      try {
+        return format(document.getText(), {
+          filename: fileURLToPath(document.uri),
+          parseOptions,
+          tab: parseOptions?.tab ?? tab,
+          range,
+        })
+      } catch (e) {
+        logger.info("Not formatting " + document.uri + ": " + e)
+        return
+      }
+    },
     loadPlugins: async function () {
-      const civetFolder = path.join(projectPath, "./.civet/")
-      // List files in civet folder
-      const civetFiles = sys.readDirectory(civetFolder)
+      for (const filePath of findPlugins()) {
+        logger.info("Loading plugin " + filePath)
+        await loadPlugin(filePath)
+      }
+    },
+    /** Loaded plugins with hooks (a plugin API version) */
+    getPlugins(): readonly Plugin[] {
+      return plugins
+    },
+    /** What plugin hooks see of a document, which must be added to the host */
+    getPluginContext(document: TextDocument): PluginDocumentContext {
+      const sourcePath = fileURLToPath(document.uri)
+      const extension = getExtensionFromPath(sourcePath)
+      const meta = transpilers.has(extension) ? host.getMeta(sourcePath) : undefined
+      return {
+        document,
+        ast: extension === ".civet" ? this.getCivetAST(document) : undefined,
+        transpiledDoc: meta?.transpiledDoc,
+        sourcemapLines: meta?.sourcemapLines,
+      }
+    },
+  })
 
+  /**
+   * URLs of the plugin modules listed in the Civet config under
+   * `languageServer.plugins`, or by default `.civet/*plugin.mjs`
+   */
+  function findPlugins(): string[] {
+    const configured = civetConfig.languageServer?.plugins
+    if (!configured) {
       // One day it would be nice to load plugins that could be transpiled but that is a whole can of worms.
       // VSCode Node versions, esm loaders, etc.
-      const pluginFiles = civetFiles.filter(file => file.endsWith("plugin.mjs"))
+      return sys.readDirectory(path.join(projectPath, "./.civet/"))
+        .filter(file => file.endsWith("plugin.mjs"))
         .map(file => pathToFileURL(file).toString())
+    }
 
-      for (const filePath of pluginFiles) {
-        logger.info("Loading plugin " + filePath)
-        await loadPlugin(filePath)
+    const configDir = civetConfigPath ? path.dirname(civetConfigPath) : projectPath
+    const configRequire = createRequire(path.join(configDir, "/"))
+    return configured.flatMap((specifier) => {
+      let resolved
+      try {
+        resolved = /^\.\.?[\\/]/.test(specifier) || path.isAbsolute(specifier)
+          ? path.resolve(configDir, specifier)
+          : configRequire.resolve(specifier)
+      } catch {}
+      if (!resolved || !sys.fileExists(resolved)) {
+        pluginError(`Can't find plugin ${specifier}`)
+        return []
       }
-    }
-  })
+      return [pathToFileURL(resolved).toString()]
+    })
+  }
 
   async function loadPlugin(path: string) {
     await import(path)
       .then(({ default: plugin }: { default: Plugin }) => {
-        logger.info("Loaded plugin " + plugin)
+        const problem = checkPlugin(plugin)
+        if (problem) {
+          pluginError(`Plugin ${path} ${problem}`)
+          return
+        }
+        logger.info("Loaded plugin " + (plugin.name ?? path))
         plugin.transpilers?.forEach((transpiler: Transpiler) => {
           transpilers.set(transpiler.extension, transpiler)
         })
+        if (plugin.apiVersion) plugins.push(plugin)
       })
       .catch(e => {
-        logger.error("Error loading plugin " + path + " " + e)
+        pluginError("Error loading plugin " + path + " " + e)
       })
   }
 
+  // Problems with configured plugins show up on the config file
+  function pluginError(message: string) {
+    logger.error(message)
+    if (civetConfig.languageServer?.plugins && civetConfigPath) {
+      configErrors.push({ fileName: civetConfigPath, message })
+    }
+  }
+
   function transpileCivet(path: string, source: string) {
-    const errors: Error[] = [],
-      result = Civet.compile(source, {
+    const errors: ParseError[] = [],
+      options = {
         ...civetConfig,
         filename: path,
-        sourceMap: true,
         errors,
+        // Keep going past parse errors so the rest of the file stays checked
+        recover: true,
         // We don't process comptime in LSP so don't need async yet
         sync: true,
         comptime: false,
-      })
+      } as const
 
-    return Object.assign(result, { errors })
-  }
-}
-
-/**
- * Returns the extension of the file including the dot.
- * @example
- * getExtension('foo/bar/baz.js') // => '.js'
- * @example
- * getExtension('foo/bar/baz') // => ''
- * @example
- * getExtension('foo/bar/baz.') // => ''
- */
-function getExtensionFromPath(path: string): string {
-  const match = path.match(lastExtension)
-  if (!match) return ""
-  return match[0]
-}
-
-// Regex to match last extension including dot
-const lastExtension = /(?:\.(?:[^./]+))?$/
-const lastTwoExtensions = /(\.[^./]*)(\.[^./]*)$/
-
-/**
- * Returns the last two extensions of a path.
- *
- * @example
- * getLastTwoExtensions('foo/bar/baz.js') // => undefined
- * @example
- * getLastTwoExtensions('foo/bar/baz') // => undefined
- * @example
- * getLastTwoExtensions('foo/bar/baz.civet.ts') // => ['.civet', '.ts']
- */
-function getTranspiledExtensionsFromPath(path: string): [string, string] | undefined {
-  const match = path.match(lastTwoExtensions)
-  if (!match) return
+    // Older Civet versions don't export SourceMap
+    if (!Civet.SourceMap) {
+      return Object.assign(Civet.compile(source, { ...options, sourceMap: true }), { errors })
+    }
 
-  return [match[1], match[2]]
-}
+    // Parse once and generate the code from the raw AST, which getCivetAST
+    // reuses while the document stays the same
+    const ast = Civet.compile(source, { ...options, ast: "raw" }),
+      sourceMap = new Civet.SourceMap(source),
+      code = Civet.generate(ast, { ...options, sourceMap })
+    transpiledASTs.set(path, { source, ast: ast as unknown as CivetChild })
 
-/**
- * Removes the last extension from a path.
- * @example
- * removeExtension('foo/bar/baz.js') // => 'foo/bar/baz'
- * @example
- * removeExtension('foo/bar/baz') // => 'foo/bar/baz'
- * @example
- * removeExtension('foo/bar/baz.') // => 'foo/bar/baz.'
- * @example
- * removeExtension('foo/bar/baz.civet.ts') // => 'foo/bar/baz.civet'
- * @example
- * removeExtension('foo/bar.js/baz') // => 'foo/bar.js/baz'
- */
-function removeExtension(path: string) {
-  return path.replace(/\.[^\/.]+$/, "")
+    return { code, sourceMap, errors }
+  }
 }
 
 function remapFileName(fileName: string, transpilers: Map<string, Transpiler>): string {
@@ -643,62 +1013,7 @@ function remapFileName(fileName: string, transpilers: Map<string, Transpiler>):
   return fileName
 }
 
-// Incremental snapshot example from vue language tools
-// https://github.com/vuejs/language-tools/blob/5607f45835ab85e0b5a0747614a4ed9989a28cec/packages/language-core/src/virtualFile/computedFiles.ts#L218
-function fullDiffTextChangeRange(oldText: string, newText: string): ts.TextChangeRange | undefined {
-  const oldTextLength = oldText.length,
-    newTextLength = newText.length,
-    minLength = Math.min(oldTextLength, newTextLength);
-
-  for (let start = 0; start < minLength; start++) {
-    if (oldText[start] !== newText[start]) {
-      let end = oldTextLength;
-      let stop = minLength - start;
-      for (let i = 0; i < stop; i++) {
-        if (oldText[oldTextLength - i - 1] !== newText[newTextLength - i - 1]) {
-          break;
-        }
-        end--;
-      }
-
-      let length = end - start;
-      let newLength = length + (newTextLength - oldTextLength);
-      if (newLength < 0) {
-        length -= newLength;
-        newLength = 0;
-      }
-
-      return {
-        span: { start, length },
-        newLength,
-      };
-    }
-  }
-
-  return undefined;
-}
-
-const Snap = (newText: string) => {
-  const changeRanges = new Map<ts.IScriptSnapshot, ts.TextChangeRange | undefined>();
-
-  const snapshot: ts.IScriptSnapshot = {
-    getText: (start, end) => newText.slice(start, end),
-    getLength: () => newText.length,
-    getChangeRange(oldSnapshot) {
-      if (!changeRanges.has(oldSnapshot)) {
-        changeRanges.set(oldSnapshot, undefined);
-        const oldText = oldSnapshot.getText(0, oldSnapshot.getLength());
-        const changeRange = fullDiffTextChangeRange(oldText, newText);
-        if (changeRange) {
-          changeRanges.set(oldSnapshot, changeRange);
-        }
-      }
-
-      return changeRanges.get(oldSnapshot);
-    },
-  };
-
-  return snapshot as ts.IScriptSnapshot;
-}
+/** A project's language service, once it has loaded */
+export type ResolvedService = Awaited<ReturnType<typeof TSService>>
 
 export default TSService
@@ -15,6 +15,7 @@ import vs, {
   RemoteConsole,
   SymbolKind,
   SymbolTag,
+  TextEdit,
 } from 'vscode-languageserver';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -33,10 +34,14 @@ export {
   remapRange,
 } from '@danielx/civet/ts-diagnostic';
 
+// Files TypeScript handles directly, without a transpiler
+export const tsSuffix = /\.[cm]?[jt]s$|\.json|\.[jt]sx/
+
 // https://github.com/microsoft/vscode/blob/main/extensions/typescript-language-features/src/languageFeatures/documentSymbol.ts#L63
 
-const getSymbolKind = (kind: ts.ScriptElementKind): SymbolKind => {
+export const getSymbolKind = (kind: ts.ScriptElementKind): SymbolKind => {
   switch (kind) {
+    case ScriptElementKind.scriptElement: return SymbolKind.File;
     case ScriptElementKind.moduleElement: return SymbolKind.Module;
     case ScriptElementKind.classElement: return SymbolKind.Class;
     case ScriptElementKind.enumElement: return SymbolKind.Enum;
@@ -276,6 +281,28 @@ export function intersectRanges(a: Range, b: Range): Range | null {
   return makeRange(resultStartLineNumber, resultStartColumn, resultEndLineNumber, resultEndColumn);
 }
 
+/**
+ * A single edit turning `document` into `newText`, spanning only the part
+ * that changed, so the editor keeps the cursor and folds around it.
+ */
+export function textChangeEdit(document: TextDocument, newText: string): TextEdit | undefined {
+  const text = document.getText()
+  if (text === newText) return
+
+  let start = 0
+  while (start < text.length && text[start] === newText[start]) start++
+  let end = 0
+  while (
+    end < text.length - start && end < newText.length - start &&
+    text[text.length - 1 - end] === newText[newText.length - 1 - end]
+  ) end++
+
+  return TextEdit.replace({
+    start: document.positionAt(start),
+    end: document.positionAt(text.length - end),
+  }, newText.slice(start, newText.length - end))
+}
+
 /**
  * Test if `otherRange` is in `range`. If the ranges are equal, will return true.
  */
@@ -295,6 +322,18 @@ export function containsRange(range: Range, otherRange: Range): boolean {
   return true;
 }
 
+/** Innermost node at `offset` */
+export function findNode(sourceFile: ts.SourceFile, offset: number): ts.Node {
+  let node: ts.Node = sourceFile
+  while (true) {
+    const child = node.forEachChild((child) =>
+      child.getStart(sourceFile) <= offset && offset < child.end ? child : undefined
+    )
+    if (!child) return node
+    node = child
+  }
+}
+
 const isFourTuple = (m: SourceMapping): m is [number, number, number, number] => m.length === 4;
 /**
  * The normal direction for sourcemapping is reverse, given a position in the generated file it points to a position in the source file.
@@ -0,0 +1,75 @@
+import path from "path"
+import { findConfigFile, sys } from "typescript"
+import { fileURLToPath, pathToFileURL } from "url"
+
+/** A workspace folder (root) open in the client, with its own projects */
+export interface WorkspaceRoot {
+  uri: string // with trailing slash
+  dir: string
+}
+
+export function toWorkspaceRoot({ uri }: { uri: string }): WorkspaceRoot {
+  if (!uri.endsWith("/")) uri += "/"
+  return { uri, dir: fileURLToPath(uri) }
+}
+
+/** The innermost workspace folder containing a path */
+export function getWorkspaceRoot(roots: readonly WorkspaceRoot[], sourcePath: string): WorkspaceRoot | undefined {
+  let best: WorkspaceRoot | undefined
+  for (const root of roots) {
+    if (sourcePath.startsWith(root.dir) && (!best || root.dir.length > best.dir.length)) {
+      best = root
+    }
+  }
+  return best
+}
+
+/**
+ * The project (directory URI with trailing slash) a source file belongs to:
+ * its package inside node_modules, else the directory of its nearest
+ * tsconfig.json inside its workspace folder, else the workspace folder, else
+ * its own directory.
+ */
+export function getProjectPath(
+  roots: readonly WorkspaceRoot[],
+  sourcePath: string,
+  fileExists: (fileName: string) => boolean = sys.fileExists
+): string {
+  // If we're in a node_modules/foo directory, use that as the project path
+  let dirname = sourcePath
+  while (dirname.includes("node_modules")) {
+    if (path.basename(path.dirname(dirname)) === "node_modules") {
+      return pathToFileURL(dirname + "/").toString()
+    }
+    dirname = path.dirname(dirname) // go up one level
+  }
+
+  const root = getWorkspaceRoot(roots, sourcePath)
+
+  // Otherwise, check for ancestor tsconfig, but don't look past the
+  // workspace folder so that every folder gets its own services
+  const tsConfigPath = findConfigFile(sourcePath, fileExists, "tsconfig.json")
+  if (tsConfigPath && (!root || tsConfigPath.startsWith(root.dir))) {
+    return pathToFileURL(path.dirname(tsConfigPath) + "/").toString()
+  }
+
+  // Otherwise, check whether we're inside a workspace folder
+  return root?.uri ?? pathToFileURL(path.dirname(sourcePath) + "/").toString()
+}
+
+/**
+ * Projects to shut down when workspace folders are removed: those whose
+ * innermost folder was removed. Projects of a folder nested in a removed one
+ * stay if that folder is still open.
+ */
+export function getRemovedProjects(
+  roots: readonly WorkspaceRoot[],
+  removed: readonly WorkspaceRoot[],
+  projectPaths: Iterable<string>
+): string[] {
+  const removedDirs = new Set(removed.map(({ dir }) => dir))
+  return Array.from(projectPaths).filter((projPath) => {
+    const root = getWorkspaceRoot(roots, fileURLToPath(projPath))
+    return root && removedDirs.has(root.dir)
+  })
+}
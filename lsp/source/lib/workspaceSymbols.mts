@@ -0,0 +1,34 @@
+import ts from 'typescript';
+import { SymbolTag, type SymbolInformation } from 'vscode-languageserver';
+import type { ResolvedService } from './typescript-service.mjs';
+import { toSourceLocation } from './locations.mjs';
+import { getSymbolKind, parseKindModifier } from './util.mjs';
+
+/**
+ * Symbols matching `query` across every file of the service's project,
+ * open or not. Symbols in transpiled files are reported at their location
+ * in the source (`.civet`) file.
+ */
+export function getWorkspaceSymbols(service: ResolvedService, query: string, maxResultCount?: number): SymbolInformation[] {
+  service.includeProjectFiles()
+  const items = service.getNavigateToItems(query, maxResultCount, undefined, true)
+
+  const symbols: SymbolInformation[] = []
+  for (const item of items) {
+    const location = toSourceLocation(service, item.fileName, item.textSpan)
+    if (!location) continue
+
+    const symbol: SymbolInformation = {
+      name: item.name,
+      kind: getSymbolKind(item.kind as ts.ScriptElementKind),
+      location,
+    }
+    if (item.containerName) symbol.containerName = item.containerName
+    if (parseKindModifier(item.kindModifiers).has(ts.ScriptElementKindModifier.deprecatedModifier)) {
+      symbol.tags = [SymbolTag.Deprecated]
+    }
+    symbols.push(symbol)
+  }
+
+  return symbols
+}
@@ -1,7 +1,6 @@
 import {
   createConnection,
   TextDocuments,
-  Diagnostic,
   ProposedFeatures,
   InitializeParams,
   DidChangeConfigurationNotification,
@@ -10,37 +9,86 @@ import {
   MarkupKind,
   TextDocumentIdentifier,
   DocumentSymbol,
+  SymbolInformation,
   CompletionItem,
   CompletionItemTag,
   Location,
-  DiagnosticSeverity,
   TextEdit,
+  Range,
+  SignatureHelp,
+  SignatureHelpContext,
+  SignatureHelpTriggerKind,
+  SignatureInformation,
+  CodeAction,
+  Diagnostic,
+  DiagnosticSeverity,
+  CodeActionKind,
+  CodeActionTriggerKind,
+  CodeLens,
+  CodeLensRefreshRequest,
+  WorkspaceEdit,
+  CancellationToken,
+  CancellationTokenSource,
+  CancellationReceiverStrategy,
+  CancellationSenderStrategy,
+  DocumentDiagnosticReportKind,
+  LSPErrorCodes,
+  ResponseError,
+  WorkspaceDocumentDiagnosticReport,
 } from 'vscode-languageserver/node';
 
 import {
   TextDocument,
   type Position
 } from 'vscode-languageserver-textdocument';
-import TSService from './lib/typescript-service.mjs';
+import TSService, { type CivetInfo, type ConfigError, type ProjectConfig, type ResolvedService } from './lib/typescript-service.mjs';
 import * as Previewer from "./lib/previewer.mjs";
-import { convertNavTree, forwardMap, getCompletionItemKind, convertDiagnostic, remapPosition, parseKindModifier, logTiming, WithResolvers, withResolvers, type SourcemapLines } from './lib/util.mjs';
+import { convertNavTree, forwardMap, getCompletionItemKind, remapPosition, remapRange, parseKindModifier, textChangeEdit, tsSuffix, WithResolvers, withResolvers, type SourcemapLines } from './lib/util.mjs';
 import { asPlainTextWithLinks, tagsToMarkdown } from './lib/textRendering.mjs';
+import { civetifyImports, getImportStyle } from './lib/imports.mjs';
+import { getDocumentDiagnostics } from './lib/diagnostics.mjs';
+import { convertInlayHints, inlayHintPreferences } from './lib/inlayHints.mjs';
+import { convertClassifications, encodeSemanticTokens, getCivetTokens, semanticTokensLegend } from './lib/semanticTokens.mjs';
+import { getFoldingRanges } from './lib/foldingRanges.mjs';
+import { getSelectionRanges } from './lib/selectionRanges.mjs';
+import { getWorkspaceSymbols } from './lib/workspaceSymbols.mjs';
+import { getDocumentHighlights } from './lib/highlights.mjs';
+import { toSourceLocation } from './lib/locations.mjs';
+import { getFileRenameEdits } from './lib/fileRename.mjs';
+import { describeConstruct } from './lib/constructs.mjs';
+import { remapTextChange } from './lib/textChanges.mjs';
+import { getImplicitCallSignatureHelp } from './lib/signatureHelp.mjs';
+import { getProjectPath, getRemovedProjects, getWorkspaceRoot, toWorkspaceRoot, type WorkspaceRoot } from './lib/workspaceRoots.mjs';
+import { fileCancellationReceiver, getCancellationFolder } from './lib/cancellation.mjs';
+import { getComptimeBlocks, getReferenceLensTargets } from './lib/codeLens.mjs';
+import { runPluginHooks, type Plugin, type PluginDocumentContext, type PluginHook } from './lib/plugins.mjs';
+import { civetConfigFile, getConfigCompletions, getConfigDiagnostics, getConfigHover, getDirectiveCompletions, getDirectiveHover } from './lib/civetOptions.mjs';
+import { getIncomingCalls, getOutgoingCalls, getSubtypes, getSupertypes, prepareCallHierarchy, prepareTypeHierarchy, type HierarchyItemData } from './lib/hierarchy.mjs';
 import assert from "assert"
+import fs from "node:fs"
 import path from "node:path"
 import ts, {
   sys as tsSys,
   displayPartsToString,
   GetCompletionsAtPositionOptions,
-  findConfigFile,
   ScriptElementKindModifier,
   SemicolonPreference,
 } from 'typescript';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { setTimeout } from 'timers/promises';
+import { createHash } from 'crypto';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
-const connection = createConnection(ProposedFeatures.all)
+// Clients that write cancellation files (see lib/cancellation.mts) can
+// cancel requests while a language service call is running.
+const cancellationFolder = getCancellationFolder(process.argv)
+const connection = createConnection(ProposedFeatures.all, cancellationFolder ? {
+  cancellationStrategy: {
+    receiver: fileCancellationReceiver(cancellationFolder, CancellationReceiverStrategy.Message),
+    sender: CancellationSenderStrategy.Message,
+  },
+} : undefined)
 const logger = connection.console;
 
 // Create a simple text document manager.
@@ -48,6 +96,9 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let hasPullDiagnostics = false;
+let hasDiagnosticRefreshSupport = false;
+let hasCodeLensRefreshSupport = false;
 // let hasDiagnosticRelatedInformationCapability = false;
 // comment out unused variable
 
@@ -59,43 +110,15 @@ const sourcePathToProjectPathMap = new Map<string, string>()
 const projectPathToPendingPromiseMap = new Map<string, Promise<void>>()
 
 // Mapping from project path -> TSService instance operating on that base directory
-type ResolvedService = Awaited<ReturnType<typeof TSService>>
 const projectPathToServiceMap = new Map<string, ResolvedService>()
 
-let rootUri: string | undefined, rootDir: string | undefined;
+// Workspace folders (roots) open in the client, each with its own projects
+let workspaceRoots: WorkspaceRoot[] = []
 
 const getProjectPathFromSourcePath = (sourcePath: string): string => {
   let projPath = sourcePathToProjectPathMap.get(sourcePath)
   if (projPath) return projPath
-
-  // If we're in a node_modules/foo directory, use that as the project path
-  let dirname = sourcePath
-  while (dirname.includes("node_modules")) {
-    if (path.basename(path.dirname(dirname)) === "node_modules") {
-      projPath = pathToFileURL(dirname + "/").toString()
-      break
-    } else {
-      dirname = path.dirname(dirname) // go up one level
-    }
-  }
-
-  // Otherwise, check for ancestor tsconfig
-  if (!projPath) {
-    const tsConfigPath = findConfigFile(sourcePath, tsSys.fileExists, 'tsconfig.json')
-    if (tsConfigPath) {
-      projPath = pathToFileURL(path.dirname(tsConfigPath) + "/").toString()
-    }
-  }
-
-  // Otherwise, check whether we're inside the root
-  if (!projPath) {
-    if (rootDir != null && sourcePath.startsWith(rootDir)) {
-      projPath = rootUri ?? pathToFileURL(path.dirname(sourcePath) + "/").toString()
-    } else {
-      projPath = pathToFileURL(path.dirname(sourcePath) + "/").toString()
-    }
-  }
-
+  projPath = getProjectPath(workspaceRoots, sourcePath)
   sourcePathToProjectPathMap.set(sourcePath, projPath)
   return projPath
 }
@@ -112,12 +135,129 @@ const ensureServiceForSourcePath = async (sourcePath: string) => {
   await initP
   projectPathToServiceMap.set(projPath, service)
   projectPathToPendingPromiseMap.delete(projPath)
+  watchCivetPackage(projPath, service.getCivetInfo())
+  const projectConfig = service.getProjectConfig()
+  watchProjectConfig(projPath, projectConfig)
+  publishConfigErrors(projPath, projectConfig.errors)
   return service
 }
 
+// Ways to stop each project's file watchers
+const projectPathToWatchersMap = new Map<string, (() => void)[]>()
+
+function addWatcher(projPath: string, stop: () => void) {
+  projectPathToWatchersMap.set(projPath, [...projectPathToWatchersMap.get(projPath) ?? [], stop])
+}
+
+// Config changes tend to come in bursts (saving several files, switching
+// branches), so wait for them to settle and reload once
+const reloadDelay = 500;  // ms
+const projectPathToReloadCountMap = new Map<string, number>()
+
+async function reloadProject(projPath: string, reason: string) {
+  logger.log(reason)
+  const count = (projectPathToReloadCountMap.get(projPath) ?? 0) + 1
+  projectPathToReloadCountMap.set(projPath, count)
+  await setTimeout(reloadDelay)
+  // A later change reloads instead
+  if (projectPathToReloadCountMap.get(projPath) !== count) return
+  projectPathToReloadCountMap.delete(projPath)
+  tearDownService(projPath)
+  recheckOpenDocuments()
+}
+
+// Poll a file for changes, including being created or deleted.
+// Polling because node_modules is usually excluded from the client's file watching.
+function pollFile(projPath: string, watchPath: string, reason: string) {
+  const listener: fs.StatsListener = (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return
+    reloadProject(projPath, reason + ": " + watchPath)
+  }
+  fs.watchFile(watchPath, { interval: 2000 }, listener)
+  addWatcher(projPath, () => fs.unwatchFile(watchPath, listener))
+}
+
+// Reload the service when the project's Civet gets installed, updated or removed.
+function watchCivetPackage(projPath: string, { packageJsonPath }: CivetInfo) {
+  // When using the bundled Civet, watch for a local install
+  const watchPath = packageJsonPath ??
+    path.join(fileURLToPath(projPath), "node_modules", "@danielx", "civet", "package.json")
+  pollFile(projPath, watchPath, "Civet compiler changed")
+}
+
+// Names `findConfig` from `@danielx/civet/config` looks for
+const civetConfigName = /^\.?(?:🐈|civetconfig|civet\.config|package)\.(?:civet|js|ya?ml|json)$|^\.config$/
+
+// Reload the service when its tsconfig or Civet config changes, or when a
+// Civet config gets added where `findConfig` would find it first
+function watchProjectConfig(projPath: string, { tsConfigFiles, civetConfigDirs }: ProjectConfig) {
+  for (const tsConfigFile of tsConfigFiles) {
+    pollFile(projPath, tsConfigFile, "tsconfig changed")
+  }
+
+  // Only watch within the workspace folder (or the project, outside of one),
+  // rather than every directory up to the root of the file system
+  const watchedDir = getWorkspaceRoot(workspaceRoots, fileURLToPath(projPath))?.dir ?? fileURLToPath(projPath)
+  const dirs = civetConfigDirs
+    .filter((dir) => (dir + path.sep).startsWith(watchedDir))
+    .flatMap((dir) => [dir, path.join(dir, ".config")])
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir)) continue
+    try {
+      const watcher = fs.watch(dir, (_event, fileName) => {
+        if (!fileName || !civetConfigName.test(fileName)) return
+        reloadProject(projPath, "Civet config changed: " + path.join(dir, fileName))
+      })
+      // e.g. the directory got deleted
+      watcher.on("error", () => watcher.close())
+      addWatcher(projPath, () => watcher.close())
+    } catch (e) {
+      logger.log("Can't watch " + dir + " for Civet config changes: " + e)
+    }
+  }
+}
+
+// Config files with errors reported by each project
+const projectPathToConfigErrorUrisMap = new Map<string, string[]>()
+
+function convertConfigError({ fileName, message, offset }: ConfigError): Diagnostic {
+  const document = getDocumentForPath(fileName)
+  const start = document && offset !== undefined ? document.positionAt(offset) : { line: 0, character: 0 }
+  return {
+    range: { start, end: start },
+    severity: DiagnosticSeverity.Error,
+    source: "civet",
+    message,
+  }
+}
+
+function publishConfigErrors(projPath: string, errors: ConfigError[]) {
+  const diagnosticsByUri = new Map<string, Diagnostic[]>()
+  for (const error of errors) {
+    const uri = pathToFileURL(error.fileName).toString()
+    diagnosticsByUri.set(uri, [...diagnosticsByUri.get(uri) ?? [], convertConfigError(error)])
+  }
+
+  for (const [uri, diagnostics] of diagnosticsByUri) {
+    connection.sendDiagnostics({ uri, diagnostics })
+  }
+  projectPathToConfigErrorUrisMap.set(projPath, [...diagnosticsByUri.keys()])
+}
+
 // TODO Propagate this to an extension setting
 const diagnosticsDelay = 16;  // ms delay for primary updated file
 const diagnosticsPropagationDelay = 100;  // ms delay for other files
+const workspaceDiagnosticsDelay = 1000;  // ms delay before checking the whole workspace again
+
+const formatCodeSettings: ts.FormatCodeSettings = {
+  semicolons: SemicolonPreference.Remove,
+}
+
+const userPreferences: ts.UserPreferences = {
+  includeCompletionsForModuleExports: true,
+  // `foo.civet.tsx` becomes `./foo.civet`
+  importModuleSpecifierEnding: "minimal",
+}
 
 connection.onInitialize(async (params: InitializeParams) => {
   const capabilities = params.capabilities;
@@ -130,6 +270,13 @@ connection.onInitialize(async (params: InitializeParams) => {
   hasWorkspaceFolderCapability = !!(
     capabilities.workspace && !!capabilities.workspace.workspaceFolders
   );
+  // Clients that pull diagnostics (LSP 3.17) ask for them when they need them,
+  // others get them pushed as documents change
+  hasPullDiagnostics = !!capabilities.textDocument?.diagnostic
+  hasDiagnosticRefreshSupport = !!capabilities.workspace?.diagnostics?.refreshSupport
+  hasCodeLensRefreshSupport = !!capabilities.workspace?.codeLens?.refreshSupport
+  // Clients can send `workspace/willRenameFiles` without workspace folders
+  const hasWillRenameCapability = !!capabilities.workspace?.fileOperations?.willRename
   // hasDiagnosticRelatedInformationCapability = !!(
   //   capabilities.textDocument &&
   //   capabilities.textDocument.publishDiagnostics &&
@@ -148,33 +295,78 @@ connection.onInitialize(async (params: InitializeParams) => {
       //   resolveProvider: true
       // },
       documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
+      callHierarchyProvider: true,
+      typeHierarchyProvider: true,
       definitionProvider: true,
+      typeDefinitionProvider: true,
+      implementationProvider: true,
+      documentHighlightProvider: true,
       hoverProvider: true,
       referencesProvider: true,
       renameProvider: true,
-
+      signatureHelpProvider: {
+        // Space is for implicit calls like `foo a, b`
+        triggerCharacters: ['(', ',', ' '],
+        retriggerCharacters: [')'],
+      },
+      inlayHintProvider: true,
+      codeActionProvider: {
+        codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.Refactor],
+        resolveProvider: true,
+      },
+      semanticTokensProvider: {
+        legend: semanticTokensLegend,
+        full: true,
+        range: true,
+      },
+      foldingRangeProvider: true,
+      selectionRangeProvider: true,
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      codeLensProvider: {
+        resolveProvider: true,
+      },
+      executeCommandProvider: {
+        commands: [evaluateComptimeCommand],
+      },
     }
   };
 
   if (hasWorkspaceFolderCapability) {
     result.capabilities.workspace = {
       workspaceFolders: {
-        supported: true
-      }
+        supported: true,
+        changeNotifications: true,
+      },
+    };
+  }
+
+  if (hasWillRenameCapability) {
+    (result.capabilities.workspace ??= {}).fileOperations = {
+      willRename: {
+        filters: [
+          { scheme: "file", pattern: { glob: "**/*.{civet,ts,tsx,mts,cts,js,jsx,mjs,cjs}", matches: "file" } },
+          { scheme: "file", pattern: { glob: "**/*", matches: "folder" } },
+        ],
+      },
     };
   }
 
-  // TODO: currently only using the first workspace folder
-  const baseDir = params.workspaceFolders?.[0]?.uri.toString()
-  if (!baseDir) {
+  if (hasPullDiagnostics) {
+    result.capabilities.diagnosticProvider = {
+      identifier: "civet",
+      interFileDependencies: true,
+      workspaceDiagnostics: true,
+    }
+  }
+
+  workspaceRoots = (params.workspaceFolders ?? []).map(toWorkspaceRoot)
+  if (!workspaceRoots.length) {
     logger.log("Warning: No workspace folders")
-    rootUri = rootDir = undefined
-  } else {
-    rootUri = baseDir + "/"
-    rootDir = fileURLToPath(rootUri)
   }
 
-  logger.log("Init " + rootDir)
+  logger.log("Init " + workspaceRoots.map(({ dir }) => dir).join(", "))
   return result;
 });
 
@@ -184,16 +376,130 @@ connection.onInitialized(() => {
     connection.client.register(DidChangeConfigurationNotification.type, undefined);
   }
   if (hasWorkspaceFolderCapability) {
-    connection.workspace.onDidChangeWorkspaceFolders(_event => {
-      logger.log('Workspace folder change event received.');
+    connection.workspace.onDidChangeWorkspaceFolders(({ added, removed }) => {
+      logger.log(`Workspace folders changed: +${added.length} -${removed.length}`);
+      updateWorkspaceRoots(added.map(toWorkspaceRoot), removed.map(toWorkspaceRoot))
     });
   }
 });
 
+function updateWorkspaceRoots(added: WorkspaceRoot[], removed: WorkspaceRoot[]) {
+  // Shut down services for projects in removed folders
+  for (const projPath of getRemovedProjects(workspaceRoots, removed, projectPathToServiceMap.keys())) {
+    tearDownService(projPath)
+  }
+
+  const removedDirs = new Set(removed.map(({ dir }) => dir))
+  workspaceRoots = workspaceRoots
+    .filter(({ dir }) => !removedDirs.has(dir))
+    .concat(added)
+
+  // Project paths depend on the workspace folders, so resolve them again
+  // and recheck open documents with whichever service now owns them
+  sourcePathToProjectPathMap.clear()
+  recheckOpenDocuments()
+}
+
+function recheckOpenDocuments() {
+  for (const document of documents.all()) {
+    // Requests wait for the document to be staged with its new service
+    if (!documentUpdateStatus.has(document.uri)) {
+      documentUpdateStatus.set(document.uri, withResolvers())
+    }
+    changeQueue.add(document)
+  }
+  scheduleExecuteQueue()
+  if (hasPullDiagnostics && hasDiagnosticRefreshSupport) {
+    connection.languages.diagnostics.refresh()
+  }
+}
+
+function tearDownService(projPath: string) {
+  const service = projectPathToServiceMap.get(projPath)
+  if (!service) return
+  logger.log("Shutting down language server for project path: " + projPath)
+
+  projectPathToServiceMap.delete(projPath)
+  for (const stop of projectPathToWatchersMap.get(projPath) ?? []) {
+    stop()
+  }
+  projectPathToWatchersMap.delete(projPath)
+  for (const uri of projectPathToConfigErrorUrisMap.get(projPath) ?? []) {
+    connection.sendDiagnostics({ uri, diagnostics: [] })
+  }
+  projectPathToConfigErrorUrisMap.delete(projPath)
+  // Clear diagnostics the service published so they don't outlive it
+  for (const [sourcePath, sourceProjPath] of sourcePathToProjectPathMap) {
+    if (sourceProjPath !== projPath) continue
+    sourcePathToProjectPathMap.delete(sourcePath)
+    connection.sendDiagnostics({ uri: pathToFileURL(sourcePath).toString(), diagnostics: [] })
+  }
+  service.dispose()
+}
+
+interface ServerInfoParams {
+  // Only report the project owning this document
+  textDocument?: TextDocumentIdentifier
+}
+
+interface ServerInfo {
+  typescript: string
+  projects: { projectPath: string, civet: CivetInfo }[]
+}
+
+// Debug info about the compilers in use, shown by the client
+connection.onRequest("civet/serverInfo", async ({ textDocument }: ServerInfoParams = {}): Promise<ServerInfo> => {
+  if (textDocument) {
+    const sourcePath = documentToSourcePath(textDocument)
+    const service = await ensureServiceForSourcePath(sourcePath)
+    return {
+      typescript: ts.version,
+      projects: [{ projectPath: getProjectPathFromSourcePath(sourcePath), civet: service.getCivetInfo() }],
+    }
+  }
+
+  return {
+    typescript: ts.version,
+    projects: Array.from(projectPathToServiceMap, ([projectPath, service]) => ({
+      projectPath,
+      civet: service.getCivetInfo(),
+    })),
+  }
+})
+
 const updating = (document: { uri: string }) => documentUpdateStatus.get(document.uri)?.promise
-const tsSuffix = /\.[cm]?[jt]s$|\.json|\.[jt]sx/
 
-connection.onHover(async ({ textDocument, position }) => {
+/**
+ * Language service calls for a request, given up with a `RequestCancelled`
+ * error once the client cancels the request, e.g. hovering somewhere else
+ * while a slow project is still being checked.
+ */
+function cancellable<T>(service: ResolvedService, token: CancellationToken, f: () => T): T {
+  try {
+    if (token.isCancellationRequested) throw new ts.OperationCanceledException()
+    return service.withCancellation(token, f)
+  } catch (e) {
+    if (e instanceof ts.OperationCanceledException) {
+      throw new ResponseError(LSPErrorCodes.RequestCancelled, "Request cancelled")
+    }
+    throw e
+  }
+}
+
+/** Results of a plugin hook for a document that's been added to the service */
+function runDocumentPluginHooks<T>(
+  service: ResolvedService,
+  document: TextDocument,
+  hook: PluginHook,
+  call: (plugin: Plugin, context: PluginDocumentContext) => T | undefined,
+): T[] {
+  const plugins = service.getPlugins()
+  if (!plugins.length) return []
+  const context = service.getPluginContext(document)
+  return runPluginHooks(plugins, hook, logger, (plugin) => call(plugin, context))
+}
+
+connection.onHover(async ({ textDocument, position }, token) => {
   // logger.log("hover"+ position)
   const sourcePath = documentToSourcePath(textDocument)
   assert(sourcePath)
@@ -204,11 +510,21 @@ connection.onHover(async ({ textDocument, position }) => {
   const doc = documents.get(textDocument.uri)
   assert(doc)
 
-  let info
+  const civetOptions = service.getCivetOptions()
+  if (civetConfigFile.test(sourcePath)) {
+    return civetOptions && getConfigHover(civetOptions, doc, position)
+  }
+  if (civetOptions && !sourcePath.match(tsSuffix)) {
+    const hover = getDirectiveHover(civetOptions, doc, position)
+    if (hover) return hover
+  }
+
+  let info, construct
+  const originalPosition = position
   await updating(textDocument)
   if (sourcePath.match(tsSuffix)) { // non-transpiled
     const p = doc.offsetAt(position)
-    info = service.getQuickInfoAtPosition(sourcePath, p)
+    info = cancellable(service, token, () => service.getQuickInfoAtPosition(sourcePath, p))
   } else { // Transpiled
     // need to sourcemap the line/columns
     const meta = service.host.getMeta(sourcePath)
@@ -220,6 +536,8 @@ connection.onHover(async ({ textDocument, position }) => {
     // Map input hover position into output TS position
     // Don't map for files that don't have a sourcemap (plain .ts for example)
     if (sourcemapLines) {
+      // Civet operators and keywords, with what they compile to
+      construct = describeConstruct(service.getCivetAST(doc), doc, transpiledDoc, sourcemapLines, position)
       position = forwardMap(sourcemapLines, position)
     }
 
@@ -227,31 +545,64 @@ connection.onHover(async ({ textDocument, position }) => {
 
     const p = transpiledDoc.offsetAt(position)
     const transpiledPath = documentToSourcePath(transpiledDoc)
-    info = service.getQuickInfoAtPosition(transpiledPath, p)
+    info = cancellable(service, token, () => service.getQuickInfoAtPosition(transpiledPath, p))
     // logger.log("onHover3"+ info)
 
   }
-  if (!info) return
-
-  const display = displayPartsToString(info.displayParts);
-  // TODO: Replace Previewer
-  const documentation = Previewer.plain(displayPartsToString(info.documentation));
+  const pluginSections = runDocumentPluginHooks(service, doc, "getHover", (plugin, context) =>
+    plugin.getHover!(context, originalPosition)
+  )
+  if (!info && !construct && !pluginSections.length) return
+
+  const sections = []
+  if (info) {
+    const display = displayPartsToString(info.displayParts);
+    // TODO: Replace Previewer
+    const documentation = Previewer.plain(displayPartsToString(info.documentation));
+    sections.push(
+      `\`\`\`typescript\n${display}\n\`\`\``,
+      documentation ?? "",
+      ...info.tags?.map(Previewer.getTagDocumentation).filter((t) => !!t) || []
+    )
+  }
+  if (construct) sections.push(construct)
+  sections.push(...pluginSections)
 
   return {
     // TODO: Range
     contents: {
       kind: MarkupKind.Markdown,
-      value: [
-        `\`\`\`typescript\n${display}\n\`\`\``,
-        documentation ?? "",
-        ...info.tags?.map(Previewer.getTagDocumentation).filter((t) => !!t) || []
-      ].join("\n\n")
+      value: sections.join("\n\n")
     }
   };
 })
 
+connection.onSignatureHelp(async ({ textDocument, position, context }) => {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  await updating(textDocument)
+  const mapped = getRenameSourceDetails(service, textDocument, sourcePath, position)
+  if (!mapped) return
+
+  const triggerReason = getSignatureHelpTriggerReason(context)
+  let info = service.getSignatureHelpItems(mapped.sourcePath, mapped.offset, { triggerReason })
+
+  // Civet calls without parentheses, e.g. `foo |`
+  if (!info && context?.triggerCharacter === ' ' && !sourcePath.match(tsSuffix)) {
+    const document = documents.get(textDocument.uri)
+    if (document) info = getImplicitCallSignatureHelp(service, document, position)
+  }
+  if (!info) return
+
+  return convertSignatureHelp(info, context)
+})
+
 // This handler provides the initial list of the completion items.
-connection.onCompletion(async ({ textDocument, position, context: _context }) => {
+connection.onCompletion(async ({ textDocument, position, context: _context }, token) => {
   const completionConfiguration = {
     useCodeSnippetsOnMethodSuggest: false,
     pathSuggestions: true,
@@ -266,7 +617,9 @@ connection.onCompletion(async ({ textDocument, position, context: _context }) =>
   }
 
   const completionOptions: GetCompletionsAtPositionOptions = {
+    ...userPreferences,
     includeExternalModuleExports: completionConfiguration.autoImportSuggestions,
+    includeCompletionsForModuleExports: completionConfiguration.autoImportSuggestions,
     includeInsertTextCompletions: true,
   }
   
@@ -284,14 +637,31 @@ connection.onCompletion(async ({ textDocument, position, context: _context }) =>
 
   logger.log("completion " + sourcePath + " " + position)
 
+  // Options in Civet config files and `"civet ..."` directives
+  const civetOptions = service.getCivetOptions()
+  if (civetConfigFile.test(sourcePath)) {
+    const document = documents.get(textDocument.uri)
+    return civetOptions && document && getConfigCompletions(civetOptions, document, position)
+  }
+  if (civetOptions && !sourcePath.match(tsSuffix)) {
+    const document = documents.get(textDocument.uri)
+    const completions = document && getDirectiveCompletions(civetOptions, document, position)
+    if (completions) return completions
+  }
+
   await updating(textDocument)
+  const document = documents.get(textDocument.uri)
+  assert(document)
+  // Plugin items can't be resolved, so they come complete
+  const pluginCompletions = runDocumentPluginHooks(service, document, "getCompletions", (plugin, context) =>
+    plugin.getCompletions!(context, position)
+  ).flat().map(({ data: _data, ...item }) => item)
+
   if (sourcePath.match(tsSuffix)) { // non-transpiled
-    const document = documents.get(textDocument.uri)
-    assert(document)
     const p = document.offsetAt(position)
-    const completions = service.getCompletionsAtPosition(sourcePath, p, completionOptions)
-    if (!completions) return
-    return convertCompletions(completions, document, sourcePath, position)
+    const completions = cancellable(service, token, () => service.getCompletionsAtPosition(sourcePath, p, completionOptions))
+    if (!completions) return pluginCompletions
+    return [...convertCompletions(completions, document, sourcePath, position), ...pluginCompletions]
   }
 
   // need to sourcemap the line/columns
@@ -309,10 +679,10 @@ connection.onCompletion(async ({ textDocument, position, context: _context }) =>
 
   const p = transpiledDoc.offsetAt(position)
   const transpiledPath = documentToSourcePath(transpiledDoc)
-  const completions = service.getCompletionsAtPosition(transpiledPath, p, completionOptions)
-  if (!completions) return;
+  const completions = cancellable(service, token, () => service.getCompletionsAtPosition(transpiledPath, p, completionOptions))
+  if (!completions) return pluginCompletions
 
-  return convertCompletions(completions, transpiledDoc, sourcePath, position, sourcemapLines)
+  return [...convertCompletions(completions, transpiledDoc, sourcePath, position, sourcemapLines), ...pluginCompletions]
 });
 
 type CompletionItemData = {
@@ -321,14 +691,18 @@ type CompletionItemData = {
   name: string
   source: string | undefined
   data: ts.CompletionEntryData | undefined
+  hasAction: boolean | undefined
 }
 
 connection.onCompletionResolve(async (item) => {
-  let { sourcePath, position, name, source, data } =
+  // Plugin completions are already complete
+  if (!item.data) return item
+  let { sourcePath, position, name, source, data, hasAction } =
     item.data as CompletionItemData
   const service = await ensureServiceForSourcePath(sourcePath)
   if (!service) return item
 
+  const originalSourcePath = sourcePath
   let document
   if (sourcePath.match(tsSuffix)) { // non-transpiled
     document = documents.get(pathToFileURL(sourcePath).toString())
@@ -346,9 +720,7 @@ connection.onCompletionResolve(async (item) => {
 
   let detail
   try {
-    detail = service.getCompletionEntryDetails(sourcePath, p, name, {
-      semicolons: SemicolonPreference.Remove,
-    }, source, undefined, data)
+    detail = service.getCompletionEntryDetails(sourcePath, p, name, formatCodeSettings, source, userPreferences, data)
   } catch (e) {
     logger.log("Failed to get completion details for " + name)
     logger.log(String(e))
@@ -363,6 +735,16 @@ connection.onCompletionResolve(async (item) => {
   details.push(asPlainTextWithLinks(detail.displayParts))
   item.detail = details.join("\n\n")
 
+  // Auto-imports come with an edit adding or extending an import
+  if (hasAction && detail.codeActions?.length) {
+    const additionalTextEdits = getCompletionImportEdits(service, originalSourcePath, detail.codeActions)
+    if (additionalTextEdits) {
+      item.additionalTextEdits = additionalTextEdits
+    } else {
+      logger.log("Dropping auto-import edits that can't be mapped to source for " + name)
+    }
+  }
+
   // getDocumentation from https://github.com/microsoft/vscode/blob/main/extensions/typescript-language-features/src/languageFeatures/completions.ts
   const documentations: string[] = []
   if (detail.documentation) {
@@ -455,7 +837,52 @@ connection.onDefinition(async ({ textDocument, position }) => {
 
 })
 
-connection.onReferences(async ({ textDocument, position }) => {
+// Locations from a TS query at a position, mapped both ways
+async function getLocations(
+  { textDocument, position }: { textDocument: TextDocumentIdentifier, position: Position },
+  query: (service: ResolvedService, fileName: string, offset: number) => readonly ts.DocumentSpan[] | undefined,
+): Promise<Location[] | undefined> {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  await updating(textDocument)
+  const mapped = getRenameSourceDetails(service, textDocument, sourcePath, position)
+  if (!mapped) return
+
+  const spans = query(service, mapped.sourcePath, mapped.offset)
+  if (!spans) return
+
+  return spans.flatMap(({ fileName, textSpan }) => toSourceLocation(service, fileName, textSpan) ?? [])
+}
+
+connection.onTypeDefinition((params) =>
+  getLocations(params, (service, fileName, offset) => service.getTypeDefinitionAtPosition(fileName, offset))
+)
+
+connection.onImplementation((params) =>
+  getLocations(params, (service, fileName, offset) => {
+    // Implementations can be in files that aren't open
+    service.includeProjectFiles()
+    return service.getImplementationAtPosition(fileName, offset)
+  })
+)
+
+connection.onDocumentHighlight(async ({ textDocument, position }) => {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  await updating(textDocument)
+  const document = documents.get(textDocument.uri)
+  if (!document) return
+
+  return getDocumentHighlights(service, document, position)
+})
+
+connection.onReferences(async ({ textDocument, position }, token) => {
   const sourcePath = documentToSourcePath(textDocument)
   assert(sourcePath)
   const service = await ensureServiceForSourcePath(sourcePath)
@@ -469,7 +896,7 @@ connection.onReferences(async ({ textDocument, position }) => {
     const document = documents.get(textDocument.uri)
     assert(document)
     const p = document.offsetAt(position)
-    references = service.getReferencesAtPosition(sourcePath, p)
+    references = cancellable(service, token, () => service.getReferencesAtPosition(sourcePath, p))
   } else {
     // need to sourcemap the line/columns
     const meta = service.host.getMeta(sourcePath)
@@ -485,7 +912,7 @@ connection.onReferences(async ({ textDocument, position }) => {
 
     const p = transpiledDoc.offsetAt(position)
     const transpiledPath = documentToSourcePath(transpiledDoc)
-    references = service.getReferencesAtPosition(transpiledPath, p)
+    references = cancellable(service, token, () => service.getReferencesAtPosition(transpiledPath, p))
   }
 
   if (!references) return
@@ -564,6 +991,106 @@ connection.onDocumentSymbol(async ({ textDocument }) => {
   return items
 })
 
+// Symbols of every project with a service, open files or not
+connection.onWorkspaceSymbol(async ({ query }) => {
+  const symbols: SymbolInformation[] = []
+  const seen = new Set<string>()
+
+  for (const service of projectPathToServiceMap.values()) {
+    for (const symbol of getWorkspaceSymbols(service, query)) {
+      // A file can belong to more than one project
+      const { uri, range: { start } } = symbol.location
+      const key = `${uri}:${start.line}:${start.character}:${symbol.name}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      symbols.push(symbol)
+    }
+  }
+
+  return symbols
+})
+
+// Hierarchy items remember their project, since the file they're in
+// may belong to another project or none (like lib.d.ts)
+type ProjectHierarchyItemData = HierarchyItemData & { projectPath: string }
+
+async function prepareHierarchy<T extends { data?: unknown }>(
+  { textDocument, position }: { textDocument: TextDocumentIdentifier, position: Position },
+  prepare: (service: ResolvedService, fileName: string, offset: number) => T[],
+): Promise<T[] | null> {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return null
+
+  await updating(textDocument)
+  const mapped = getRenameSourceDetails(service, textDocument, sourcePath, position)
+  if (!mapped) return null
+
+  const projectPath = getProjectPathFromSourcePath(sourcePath)
+  const items = prepare(service, mapped.sourcePath, mapped.offset)
+  for (const item of items) {
+    item.data = { ...item.data as HierarchyItemData, projectPath }
+  }
+  return items.length ? items : null
+}
+
+// Items in the results get the same project
+function resolveHierarchy<R>(
+  { item }: { item: { data?: unknown } },
+  resolve: (service: ResolvedService, data: HierarchyItemData) => R[],
+  getItem: (result: R) => { data?: unknown },
+): R[] | null {
+  const data = item.data as ProjectHierarchyItemData | undefined
+  if (!data) return null
+  const service = projectPathToServiceMap.get(data.projectPath)
+  if (!service) return null
+
+  const results = resolve(service, data)
+  for (const result of results) {
+    const resultItem = getItem(result)
+    resultItem.data = { ...resultItem.data as HierarchyItemData, projectPath: data.projectPath }
+  }
+  return results
+}
+
+connection.languages.callHierarchy.onPrepare((params) => prepareHierarchy(params, prepareCallHierarchy))
+connection.languages.callHierarchy.onIncomingCalls((params) => resolveHierarchy(params, getIncomingCalls, (call) => call.from))
+connection.languages.callHierarchy.onOutgoingCalls((params) => resolveHierarchy(params, getOutgoingCalls, (call) => call.to))
+
+connection.languages.typeHierarchy.onPrepare((params) => prepareHierarchy(params, prepareTypeHierarchy))
+connection.languages.typeHierarchy.onSupertypes((params) => resolveHierarchy(params, getSupertypes, (item) => item))
+connection.languages.typeHierarchy.onSubtypes((params) => resolveHierarchy(params, getSubtypes, (item) => item))
+
+// Fix imports of files (and directories) before they get renamed or moved
+connection.workspace.onWillRenameFiles(async ({ files }) => {
+  const renames = files.map(({ oldUri, newUri }) => ({
+    oldPath: fileURLToPath(oldUri),
+    newPath: fileURLToPath(newUri),
+  }))
+  // Make sure the projects of the moved files are loaded
+  for (const { oldPath } of renames) {
+    await ensureServiceForSourcePath(oldPath)
+  }
+
+  const changes: Record<string, TextEdit[]> = {}
+  const seen = new Set<string>()
+  for (const service of projectPathToServiceMap.values()) {
+    for (const [uri, edits] of Object.entries(getFileRenameEdits(service, renames, getDocumentForPath))) {
+      for (const edit of edits) {
+        // A file can belong to more than one project
+        const { start, end } = edit.range
+        const key = `${uri}:${start.line}:${start.character}:${end.line}:${end.character}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        changes[uri] = [...(changes[uri] ?? []), edit]
+      }
+    }
+  }
+
+  return Object.keys(changes).length ? { changes } : null
+})
+
 function getRenameSourceDetails(
   service: ResolvedService,
   textDocumentId: TextDocumentIdentifier,
@@ -649,7 +1176,7 @@ function createRenameLocationChanges(
   return changes 
 }
 
-connection.onRenameRequest(async ({ textDocument, position, newName }) => {
+connection.onRenameRequest(async ({ textDocument, position, newName }, token) => {
   const sourcePath = documentToSourcePath(textDocument)
   assert(sourcePath)
 
@@ -661,7 +1188,9 @@ connection.onRenameRequest(async ({ textDocument, position, newName }) => {
   const mapped = getRenameSourceDetails(service, textDocument, sourcePath, position)
   if (!mapped) return
 
-  const locations = service.findRenameLocations(mapped.sourcePath, mapped.offset, false, false, {})
+  const locations = cancellable(service, token, () =>
+    service.findRenameLocations(mapped.sourcePath, mapped.offset, false, false, {})
+  )
   if (!locations || !locations.length) return
 
   const program = service.getProgram()
@@ -672,9 +1201,526 @@ connection.onRenameRequest(async ({ textDocument, position, newName }) => {
   }
 })
 
-// TODO
+async function getSemanticTokens(textDocument: TextDocumentIdentifier, range?: Range) {
+  const empty = { data: [] }
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return empty
+
+  const document = documents.get(textDocument.uri)
+  if (!document) return empty
+
+  await updating(textDocument)
+  if (sourcePath.match(tsSuffix)) { // non-transpiled
+    const start = range ? document.offsetAt(range.start) : 0
+    const end = range ? document.offsetAt(range.end) : document.getText().length
+    const classifications = service.getEncodedSemanticClassifications(
+      sourcePath,
+      { start, length: end - start },
+      ts.SemanticClassificationFormat.TwentyTwenty
+    )
+    return encodeSemanticTokens(convertClassifications(classifications, document), range)
+  }
+
+  // Transpiled
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta) return empty
+  const { sourcemapLines, transpiledDoc } = meta
+  if (!transpiledDoc || !sourcemapLines) return empty
+
+  const transpiledPath = documentToSourcePath(transpiledDoc)
+  const classifications = service.getEncodedSemanticClassifications(
+    transpiledPath,
+    { start: 0, length: transpiledDoc.getText().length },
+    ts.SemanticClassificationFormat.TwentyTwenty
+  )
+  const tokens = convertClassifications(classifications, transpiledDoc, document, sourcemapLines)
+
+  // Operators and other syntax that TypeScript never sees
+  if (sourcePath.endsWith(".civet")) {
+    const ast = service.getCivetAST(document)
+    if (ast) tokens.push(...getCivetTokens(ast, document, range))
+  }
+
+  return encodeSemanticTokens(tokens, range)
+}
+
+connection.languages.semanticTokens.on(({ textDocument }) => {
+  return getSemanticTokens(textDocument)
+})
+
+connection.languages.semanticTokens.onRange(({ textDocument, range }) => {
+  return getSemanticTokens(textDocument, range)
+})
+
+/**
+ * The raw Civet AST of an open `.civet` document, for features that work
+ * from the Civet structure alone
+ */
+async function getCivetAST(textDocument: TextDocumentIdentifier) {
+  const sourcePath = documentToSourcePath(textDocument)
+  if (!sourcePath.endsWith(".civet")) return
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  const document = documents.get(textDocument.uri)
+  if (!document) return
+
+  const ast = service.getCivetAST(document)
+  if (!ast) return
+  return { ast, document }
+}
+
+connection.onFoldingRanges(async ({ textDocument }) => {
+  const parsed = await getCivetAST(textDocument)
+  if (!parsed) return null
+
+  return getFoldingRanges(parsed.ast, parsed.document)
+})
+
+connection.onSelectionRanges(async ({ textDocument, positions }) => {
+  const parsed = await getCivetAST(textDocument)
+  if (!parsed) return null
+
+  return getSelectionRanges(parsed.ast, parsed.document, positions)
+})
+
+connection.languages.inlayHint.on(async ({ textDocument, range }) => {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  const document = documents.get(textDocument.uri)
+  if (!document) return
+
+  await updating(textDocument)
+  if (sourcePath.match(tsSuffix)) { // non-transpiled
+    const start = document.offsetAt(range.start)
+    const hints = service.provideInlayHints(sourcePath, {
+      start,
+      length: document.offsetAt(range.end) - start,
+    }, inlayHintPreferences)
+    return convertInlayHints(hints, document)
+  }
+
+  // Transpiled
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta) return
+  const { sourcemapLines, transpiledDoc } = meta
+  if (!transpiledDoc || !sourcemapLines) return
+
+  // The requested range doesn't map to a single span of output, so ask for
+  // every hint and keep the ones that land in the range
+  const transpiledPath = documentToSourcePath(transpiledDoc)
+  const hints = service.provideInlayHints(transpiledPath, {
+    start: 0,
+    length: transpiledDoc.getText().length,
+  }, inlayHintPreferences)
+  return convertInlayHints(hints, transpiledDoc, document, sourcemapLines, range)
+})
+
+/**
+ * Formatting edits for a `.civet` document; TypeScript files are left
+ * to their own formatter.
+ */
+async function formatDocument(textDocument: TextDocumentIdentifier, tabSize: number, range?: Range): Promise<TextEdit[]> {
+  const sourcePath = documentToSourcePath(textDocument)
+  if (!sourcePath.endsWith(".civet")) return []
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return []
+
+  const document = documents.get(textDocument.uri)
+  if (!document) return []
+
+  const formatted = service.formatCivet(document, tabSize,
+    range && [document.offsetAt(range.start), document.offsetAt(range.end)])
+  if (formatted === undefined) return []
+
+  const edit = textChangeEdit(document, formatted)
+  return edit ? [edit] : []
+}
+
+connection.onDocumentFormatting(({ textDocument, options }) => {
+  return formatDocument(textDocument, options.tabSize)
+})
+
+connection.onDocumentRangeFormatting(({ textDocument, range, options }) => {
+  return formatDocument(textDocument, options.tabSize, range)
+})
+
+interface TranspiledRangeParams {
+  textDocument: TextDocumentIdentifier
+  range: Range
+}
+
+/**
+ * Metadata for a transpiled document once its latest version is transpiled
+ */
+async function getTranspiledMeta(textDocument: TextDocumentIdentifier) {
+  const sourcePath = documentToSourcePath(textDocument)
+  if (sourcePath.match(tsSuffix)) return
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  await updating(textDocument)
+  return service.host.getMeta(sourcePath)
+}
+
+// The TypeScript the host holds for a transpiled document, for the client's read-only view
+connection.onRequest("civet/transpiled", async ({ textDocument }: { textDocument: TextDocumentIdentifier }) => {
+  const transpiledDoc = (await getTranspiledMeta(textDocument))?.transpiledDoc
+  if (!transpiledDoc) return null
+
+  return {
+    uri: transpiledDoc.uri,
+    text: transpiledDoc.getText(),
+  }
+})
+
+// Map a source range into the transpiled document
+connection.onRequest("civet/transpiledRange", async ({ textDocument, range }: TranspiledRangeParams) => {
+  const sourcemapLines = (await getTranspiledMeta(textDocument))?.sourcemapLines
+  if (!sourcemapLines) return null
+
+  return {
+    start: forwardMap(sourcemapLines, range.start),
+    end: forwardMap(sourcemapLines, range.end),
+  }
+})
+
+// Map a range in the transpiled document back into the source
+connection.onRequest("civet/sourceRange", async ({ textDocument, range }: TranspiledRangeParams) => {
+  const sourcemapLines = (await getTranspiledMeta(textDocument))?.sourcemapLines
+  if (!sourcemapLines) return null
+
+  return remapRange(range, sourcemapLines)
+})
+
+/**
+ * Map a range in a source document to offsets in the file TypeScript knows about.
+ */
+function getTranspiledSpan(
+  service: ResolvedService,
+  sourcePath: string,
+  range: Range
+) {
+  if (sourcePath.match(tsSuffix)) {
+    const document = documents.get(pathToFileURL(sourcePath).toString())
+    if (!document) return null
+    return {
+      sourcePath,
+      start: document.offsetAt(range.start),
+      end: document.offsetAt(range.end),
+    }
+  }
+
+  const meta = service.host.getMeta(sourcePath)
+  if (!meta?.transpiledDoc || !meta.sourcemapLines) return null
+  const { transpiledDoc, sourcemapLines } = meta
+
+  return {
+    sourcePath: documentToSourcePath(transpiledDoc),
+    start: transpiledDoc.offsetAt(forwardMap(sourcemapLines, range.start)),
+    end: transpiledDoc.offsetAt(forwardMap(sourcemapLines, range.end)),
+  }
+}
+
+/**
+ * Get the open document for a path, or a snapshot of it from disk.
+ */
+function getDocumentForPath(path: string) {
+  const uri = pathToFileURL(path).toString()
+  const document = documents.get(uri)
+  if (document) return document
+
+  const text = tsSys.readFile(path)
+  if (text == null) return
+  return TextDocument.create(uri, "", 0, text)
+}
+
+/**
+ * Convert TypeScript file changes into a WorkspaceEdit in source coordinates.
+ * Returns undefined if any of the changes can't be mapped faithfully.
+ */
+function convertFileTextChanges(
+  service: ResolvedService,
+  fileTextChanges: readonly ts.FileTextChanges[]
+): WorkspaceEdit | undefined {
+  const changes: Record<string, TextEdit[]> = {}
+
+  for (const { fileName, textChanges, isNewFile } of fileTextChanges) {
+    if (isNewFile) return
+
+    const sourceFileName = service.getSourceFileName(fileName)
+    const sourceDoc = getDocumentForPath(sourceFileName)
+    if (!sourceDoc) return
+
+    const edits: TextEdit[] = []
+    if (sourceFileName === fileName) { // non-transpiled
+      for (const { span, newText } of textChanges) {
+        edits.push(TextEdit.replace({
+          start: sourceDoc.positionAt(span.start),
+          end: sourceDoc.positionAt(span.start + span.length),
+        }, newText))
+      }
+    } else {
+      const meta = service.host.getMeta(sourceFileName)
+      if (!meta?.transpiledDoc || !meta.sourcemapLines) return
+      for (const change of textChanges) {
+        const edit = remapTextChange(change, meta.transpiledDoc, sourceDoc, meta.sourcemapLines)
+        if (!edit) return
+        edits.push(edit)
+      }
+    }
+
+    const uri = pathToFileURL(sourceFileName).toString()
+    changes[uri] = (changes[uri] ?? []).concat(edits)
+  }
+
+  return { changes }
+}
+
+// Refactor edits are only computed once the client resolves the action
+type CodeActionData = {
+  sourcePath: string
+  range: Range
+  refactor: string
+  action: string
+}
+
+connection.onCodeAction(async ({ textDocument, range, context }) => {
+  const sourcePath = documentToSourcePath(textDocument)
+  assert(sourcePath)
+
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  await updating(textDocument)
+
+  const wants = (kind: string) =>
+    !context.only || context.only.some((only) => kind === only || kind.startsWith(only + "."))
+
+  const actions: CodeAction[] = []
+
+  if (wants(CodeActionKind.QuickFix)) {
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'typescript' || typeof diagnostic.code !== 'number') continue
+
+      const span = getTranspiledSpan(service, sourcePath, diagnostic.range)
+      if (!span) continue
+
+      let fixes: readonly ts.CodeFixAction[]
+      try {
+        fixes = service.getCodeFixesAtPosition(span.sourcePath, span.start, span.end, [diagnostic.code], formatCodeSettings, userPreferences)
+      } catch (e) {
+        logger.log("Failed to get code fixes for " + sourcePath)
+        logger.log(String(e))
+        continue
+      }
+
+      for (const fix of fixes) {
+        const edit = convertFileTextChanges(service, fix.changes)
+        if (!edit?.changes) {
+          logger.log("Dropping code fix that can't be mapped to source: " + fix.description)
+          continue
+        }
+        if (fix.fixName === "import") {
+          for (const [uri, edits] of Object.entries(edit.changes)) {
+            edit.changes[uri] = civetifyImportEdits(service, fileURLToPath(uri), edits)
+          }
+        }
+        actions.push({
+          title: fix.description,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          edit,
+        })
+      }
+    }
+  }
+
+  if (wants(CodeActionKind.Refactor)) {
+    const span = getTranspiledSpan(service, sourcePath, range)
+    if (span) {
+      const triggerReason = context.triggerKind === CodeActionTriggerKind.Invoked ? "invoked" : "implicit"
+      const refactors = service.getApplicableRefactors(span.sourcePath, { pos: span.start, end: span.end }, userPreferences, triggerReason)
+      for (const refactor of refactors) {
+        for (const action of refactor.actions) {
+          if (action.notApplicableReason || action.isInteractive) continue
+          const kind = action.kind ?? CodeActionKind.Refactor
+          if (!wants(kind)) continue
+          actions.push({
+            title: action.description,
+            kind,
+            data: {
+              sourcePath,
+              range,
+              refactor: refactor.name,
+              action: action.name,
+            } satisfies CodeActionData,
+          })
+        }
+      }
+    }
+  }
+
+  const document = documents.get(textDocument.uri)
+  if (document) {
+    // Plugin actions come with their edits, so they don't get resolved
+    const pluginActions = runDocumentPluginHooks(service, document, "getCodeActions", (plugin, pluginContext) =>
+      plugin.getCodeActions!(pluginContext, range, context.diagnostics)
+    )
+    for (const { data: _data, ...action } of pluginActions.flat()) {
+      if (!action.kind || wants(action.kind)) actions.push(action)
+    }
+  }
+
+  return actions
+})
+
+connection.onCodeActionResolve(async (codeAction) => {
+  const data = codeAction.data as CodeActionData | undefined
+  if (!data) return codeAction
+
+  const { sourcePath, range, refactor, action } = data
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return codeAction
+
+  const span = getTranspiledSpan(service, sourcePath, range)
+  if (!span) return codeAction
+
+  const info = service.getEditsForRefactor(span.sourcePath, formatCodeSettings, { pos: span.start, end: span.end }, refactor, action, userPreferences)
+  const edit = info && convertFileTextChanges(service, info.edits)
+  if (!edit) {
+    // Leave the action without edits rather than write over the wrong code
+    logger.log("Dropping refactor that can't be mapped to source: " + codeAction.title)
+    return codeAction
+  }
+
+  codeAction.edit = edit
+  return codeAction
+})
+
+// Reference counts are only found once the client resolves a visible lens
+type CodeLensData = {
+  sourcePath: string
+  position: Position
+}
+
+const evaluateComptimeCommand = "civet.evaluateComptime"
+
+// Results of evaluated `comptime` blocks, shown in place of their lenses until
+// the document changes, by block offset
+const comptimeResults = new Map<string, { version: number, results: Map<number, string> }>()
+
+connection.onCodeLens(async ({ textDocument }) => {
+  const parsed = await getCivetAST(textDocument)
+  if (!parsed) return null
+  const { ast, document } = parsed
+  const sourcePath = documentToSourcePath(textDocument)
+  const source = document.getText()
+
+  const lenses: CodeLens[] = getReferenceLensTargets(ast, source).map((offset) => {
+    const position = document.positionAt(offset)
+    return {
+      range: { start: position, end: position },
+      data: { sourcePath, position } satisfies CodeLensData,
+    }
+  })
+
+  const evaluated = comptimeResults.get(textDocument.uri)
+  const results = evaluated?.version === document.version ? evaluated.results : undefined
+  for (const block of getComptimeBlocks(ast, source)) {
+    const position = document.positionAt(block.start)
+    lenses.push({
+      range: { start: position, end: position },
+      command: {
+        title: results?.get(block.start) ?? "Evaluate comptime",
+        command: evaluateComptimeCommand,
+        arguments: [textDocument.uri, document.version, block.start],
+      },
+    })
+  }
+
+  return lenses
+})
+
+connection.onCodeLensResolve(async (codeLens, token) => {
+  const data = codeLens.data as CodeLensData | undefined
+  if (!data) return codeLens
+
+  const { sourcePath, position } = data
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return codeLens
+
+  const uri = pathToFileURL(sourcePath).toString()
+  await updating({ uri })
+  const span = getTranspiledSpan(service, sourcePath, { start: position, end: position })
+  if (!span) return codeLens
+
+  // References can be in files that aren't open
+  service.includeProjectFiles()
+  const symbols = cancellable(service, token, () => service.findReferences(span.sourcePath, span.start))
+  const locations = (symbols ?? [])
+    .flatMap(({ references }) => references)
+    .filter(({ isDefinition }) => !isDefinition)
+    .map(({ fileName, textSpan }) => toSourceLocation(service, fileName, textSpan))
+    .filter((location) => location != null)
+
+  codeLens.command = {
+    title: locations.length === 1 ? "1 reference" : `${locations.length} references`,
+    command: "civet.action.showReferences",
+    arguments: [uri, position, locations],
+  }
+  return codeLens
+})
+
+connection.onExecuteCommand(async ({ command, arguments: args }) => {
+  if (command !== evaluateComptimeCommand || !args) return
+  const [uri, version, offset] = args as [string, number, number]
+
+  const parsed = await getCivetAST({ uri })
+  if (!parsed || parsed.document.version !== version) return
+  const block = getComptimeBlocks(parsed.ast, parsed.document.getText())
+    .find(({ start }) => start === offset)
+  if (!block) return
+
+  const sourcePath = documentToSourcePath({ uri })
+  const service = await ensureServiceForSourcePath(sourcePath)
+  if (!service) return
+
+  let result
+  try {
+    result = `comptime: ${await service.evaluateComptime(sourcePath, block)}`
+  } catch (e) {
+    // Drop the location prefix, and the generated JS after the message
+    const message = (e instanceof Error ? e.message : String(e)).replace(/^\S+:\S*:\S* /, "").split("\n")[0]
+    result = `comptime failed: ${message}`
+  }
+
+  let evaluated = comptimeResults.get(uri)
+  if (evaluated?.version !== version) {
+    evaluated = { version, results: new Map() }
+    comptimeResults.set(uri, evaluated)
+  }
+  // Long values would push the rest of the line out of view
+  evaluated.results.set(offset, result.length > 100 ? result.slice(0, 99) + "…" : result)
+
+  if (hasCodeLensRefreshSupport) {
+    await connection.sendRequest(CodeLensRefreshRequest.type)
+  } else {
+    connection.window.showInformationMessage(result)
+  }
+})
+
 documents.onDidClose(({ document }) => {
   logger.log("close " + document.uri)
+  comptimeResults.delete(document.uri)
 });
 
 documents.onDidOpen(async ({ document }) => {
@@ -687,9 +1733,7 @@ let executeTimeout: Promise<void> | undefined
 const documentUpdateStatus = new Map<string, WithResolvers<boolean>>()
 async function executeQueue() {
   // Cancel any in-flight project-wide diagnostics update to avoid conflicts
-  if (runningDiagnosticsUpdate) {
-    runningDiagnosticsUpdate.isCanceled = true
-  }
+  runningDiagnosticsUpdate?.cancel()
   const changed = Array.from(changeQueue);
   changeQueue = new Set();
   if (changed.length === 0) {
@@ -717,7 +1761,8 @@ async function executeQueue() {
 
     // Phase 2: Analyze all staged documents within this project.
     for (const doc of docs) {
-      await updateDiagnosticsForDoc(doc, service);
+      // Pulling clients ask for diagnostics themselves
+      if (!hasPullDiagnostics) await updateDiagnosticsForDoc(doc, service);
       documentUpdateStatus.get(doc.uri)?.resolve(true);
       Promise.resolve().then(() => documentUpdateStatus.delete(doc.uri));
     }
@@ -725,6 +1770,8 @@ async function executeQueue() {
   executeTimeout = undefined
   if (changeQueue.size) {
     scheduleExecuteQueue()
+  } else if (hasPullDiagnostics) {
+    diagnosticsChanged()
   } else {
     scheduleUpdateDiagnostics(new Set(changed));
   }
@@ -762,69 +1809,8 @@ async function updateDiagnosticsForDoc(document: TextDocument, service?: Resolve
     service.host.addOrUpdateDocument(document)
   }
 
-  // Non-transpiled
-  if (sourcePath.match(tsSuffix)) {
-    const diagnostics: Diagnostic[] = [
-      ...logTiming(logger, "service.getSyntacticDiagnostics", service.getSyntacticDiagnostics)(sourcePath),
-      ...logTiming(logger, "service.getSemanticDiagnostics", service.getSemanticDiagnostics)(sourcePath),
-      ...logTiming(logger, "service.getSuggestionDiagnostics", service.getSuggestionDiagnostics)(sourcePath),
-    ].map((diagnostic) => convertDiagnostic(diagnostic, document))
-
-    return connection.sendDiagnostics({
-      uri: document.uri,
-      diagnostics
-    })
-  }
-
-  // Transpiled file
-  const meta = service.host.getMeta(sourcePath)
-  if (!meta) {
-    logger.log("no meta for " + sourcePath)
-    return
-  }
-  const { sourcemapLines, transpiledDoc, parseErrors, fatal } = meta
-  if (!transpiledDoc) {
-    logger.log("no transpiledDoc for " + sourcePath)
-    return
-  }
-
-  const transpiledPath = documentToSourcePath(transpiledDoc)
-  const diagnostics: Diagnostic[] = [];
-
-  if (parseErrors?.length) {
-    diagnostics.push(...parseErrors.map((e: Error & {line?: number, column?: number}) => {
-      let start = { line: 0, character: 0 }, end = { line: 0, character: 10 }
-      let message = e.message
-      if (e.line != null && e.column != null) { // ParseError
-        // Remove leading filename:line:column from message
-        message = message.replace(/^\S+ /, "")
-        // Convert 1-based to 0-based
-        start.line = end.line = e.line - 1
-        start.character = e.column - 1
-        end.character = e.column + 3
-      }
-
-      return {
-        severity: DiagnosticSeverity.Error,
-        // Don't need to transform the range, it's already in the source file coordinates
-        range: {
-          start,
-          end,
-        },
-        message,
-        source: 'civet'
-      }
-    }).filter(x => !!x))
-  }
-  if (!fatal) {
-    [
-      ...logTiming(logger, "service.getSyntacticDiagnostics", service.getSyntacticDiagnostics)(transpiledPath),
-      ...logTiming(logger, "service.getSemanticDiagnostics", service.getSemanticDiagnostics)(transpiledPath),
-      ...logTiming(logger, "service.getSuggestionDiagnostics", service.getSuggestionDiagnostics)(transpiledPath),
-    ].forEach((diagnostic) => {
-      diagnostics.push(convertDiagnostic(diagnostic, transpiledDoc!, sourcemapLines))
-    })
-  }
+  const diagnostics = getDiagnosticsForDoc(document, service)
+  if (!diagnostics) return
 
   connection.sendDiagnostics({
     uri: document.uri,
@@ -834,13 +1820,33 @@ async function updateDiagnosticsForDoc(document: TextDocument, service?: Resolve
   return
 }
 
+// Diagnostics of a document already staged in the service
+function getDiagnosticsForDoc(document: TextDocument, service: ResolvedService): Diagnostic[] | undefined {
+  const sourcePath = documentToSourcePath(document)
+  const diagnostics = getDocumentDiagnostics(service, document, logger)
+  if (!diagnostics) return
+
+  // Civet config files also get checked as such
+  if (civetConfigFile.test(sourcePath)) {
+    const civetOptions = service.getCivetOptions()
+    if (civetOptions) diagnostics.push(...getConfigDiagnostics(civetOptions, document))
+    // Pulling clients keep the load errors pushed by publishConfigErrors
+    if (!hasPullDiagnostics) {
+      for (const error of service.getProjectConfig().errors) {
+        if (error.fileName === sourcePath) diagnostics.push(convertConfigError(error))
+      }
+    }
+  }
+  return diagnostics
+}
+
 // Using a cancellation token we prevent parallel executions of scheduleUpdateDiagnostics
-let runningDiagnosticsUpdate: { isCanceled: boolean } | undefined
+let runningDiagnosticsUpdate: CancellationTokenSource | undefined
 
 // Asynchronously update diagnostics for all the documents
 // in a project, based on the service instance.
 const updateProjectDiagnostics = async (
-  status: { isCanceled: boolean },
+  token: CancellationToken,
   service: ResolvedService
 ) => {
   const program = service.getProgram();
@@ -850,25 +1856,27 @@ const updateProjectDiagnostics = async (
   await setTimeout(diagnosticsPropagationDelay);
 
   for (const sourceFile of program.getSourceFiles()) {
-    if (status.isCanceled) return;
+    if (token.isCancellationRequested) return;
 
     // We only send diagnostics for files the user actually has open,
     // even though we're checking every file in the project for correctness.
-    const docUri = pathToFileURL(sourceFile.fileName).toString();
-    const doc = documents.get(docUri);
-    if (doc) {
-      await updateDiagnosticsForDoc(doc, service);
-    }
+    const sourcePath = service.getSourceFileName(sourceFile.fileName);
+    const doc = documents.get(pathToFileURL(sourcePath).toString());
+    if (!doc) continue;
+
+    // Files imported across projects (or workspace folders) get their
+    // diagnostics from the project that owns them
+    if (projectPathToServiceMap.get(getProjectPathFromSourcePath(sourcePath)) !== service) continue;
+
+    await updateDiagnosticsForDoc(doc, service);
   }
 }
 
 // Schedule an update of diagnostics for all projects affected by recent changes.
 function scheduleUpdateDiagnostics(changedDocs: Set<TextDocument>) {
-  if (runningDiagnosticsUpdate) {
-    runningDiagnosticsUpdate.isCanceled = true;
-  }
-  const status = { isCanceled: false };
-  runningDiagnosticsUpdate = status;
+  runningDiagnosticsUpdate?.cancel();
+  runningDiagnosticsUpdate = new CancellationTokenSource();
+  const { token } = runningDiagnosticsUpdate;
 
   // Deduplicate by project path to avoid redundant updates.
   const servicesToUpdate = new Set<ResolvedService>();
@@ -884,10 +1892,102 @@ function scheduleUpdateDiagnostics(changedDocs: Set<TextDocument>) {
   // Trigger updates for each affected project.
   for (const service of servicesToUpdate) {
     // Don't await; let updates for different projects run in parallel.
-    updateProjectDiagnostics(status, service);
+    updateProjectDiagnostics(token, service);
   }
 }
 
+// Pull diagnostics
+
+// Result IDs identify the diagnostics a file got, so a change to the project
+// only updates the files whose diagnostics it changed
+function getDiagnosticsResultId(items: Diagnostic[]) {
+  return createHash("sha1").update(JSON.stringify(items)).digest("base64")
+}
+
+// Workspace diagnostics requests wait on this when there is nothing new to report
+let diagnosticsChange = withResolvers<void>()
+function diagnosticsChanged() {
+  diagnosticsChange.resolve()
+  diagnosticsChange = withResolvers()
+}
+
+connection.languages.diagnostics.on(async ({ textDocument, previousResultId }, token) => {
+  const sourcePath = documentToSourcePath(textDocument)
+  const service = await ensureServiceForSourcePath(sourcePath)
+  const document = documents.get(textDocument.uri)
+  if (!service || !document) return { kind: DocumentDiagnosticReportKind.Full, items: [] }
+
+  await updating(textDocument)
+  const items = cancellable(service, token, () => getDiagnosticsForDoc(document, service)) ?? []
+  const resultId = getDiagnosticsResultId(items)
+  if (resultId === previousResultId) {
+    return { kind: DocumentDiagnosticReportKind.Unchanged, resultId }
+  }
+  return { kind: DocumentDiagnosticReportKind.Full, resultId, items }
+})
+
+// Reports for every file of a project, including closed ones
+async function getProjectDiagnosticReports(
+  service: ResolvedService,
+  previousResultIds: Map<string, string>,
+  token: CancellationToken,
+): Promise<WorkspaceDocumentDiagnosticReport[]> {
+  service.includeProjectFiles()
+  const program = service.getProgram()
+  if (!program) return []
+
+  const reports: WorkspaceDocumentDiagnosticReport[] = []
+  for (const sourceFile of program.getSourceFiles()) {
+    if (program.isSourceFileDefaultLibrary(sourceFile) || program.isSourceFileFromExternalLibrary(sourceFile)) continue
+    const sourcePath = service.getSourceFileName(sourceFile.fileName)
+    // Files imported across projects get their diagnostics from the project that owns them
+    if (projectPathToServiceMap.get(getProjectPathFromSourcePath(sourcePath)) !== service) continue
+
+    const uri = pathToFileURL(sourcePath).toString()
+    const version = documents.get(uri)?.version ?? null
+    const document = getDocumentForPath(sourcePath)
+    if (!document) continue
+    const items = cancellable(service, token, () => getDiagnosticsForDoc(document, service)) ?? []
+    const resultId = getDiagnosticsResultId(items)
+    if (previousResultIds.get(uri) === resultId) {
+      reports.push({ kind: DocumentDiagnosticReportKind.Unchanged, uri, version, resultId })
+    } else {
+      reports.push({ kind: DocumentDiagnosticReportKind.Full, uri, version, resultId, items })
+    }
+
+    // Let other requests in between files
+    await setTimeout(0)
+  }
+  return reports
+}
+
+connection.languages.diagnostics.onWorkspace(async ({ previousResultIds }, token) => {
+  const previous = new Map(previousResultIds.map(({ uri, value }) => [uri, value]))
+  for (;;) {
+    const change = diagnosticsChange.promise
+    const items: WorkspaceDocumentDiagnosticReport[] = []
+    for (const service of new Set(projectPathToServiceMap.values())) {
+      items.push(...await getProjectDiagnosticReports(service, previous, token))
+    }
+    if (items.some(({ kind }) => kind === DocumentDiagnosticReportKind.Full)) return { items }
+
+    // The client asks again as soon as it gets an answer, so only answer
+    // once something changed (or the client gave up on the request)
+    await new Promise<void>((resolve) => {
+      const listener = token.onCancellationRequested(() => resolve())
+      change.then(() => {
+        listener.dispose()
+        resolve()
+      })
+    })
+    // Checking every file again is slow, so let a burst of edits settle first
+    await setTimeout(workspaceDiagnosticsDelay)
+    if (token.isCancellationRequested) {
+      throw new ResponseError(LSPErrorCodes.RequestCancelled, "Request cancelled")
+    }
+  }
+})
+
 connection.onDidChangeWatchedFiles(_change => {
   // Monitored files have change in VSCode
   logger.log('We received an file change event');
@@ -906,10 +2006,109 @@ function documentToSourcePath(textDocument: TextDocumentIdentifier) {
   return fileURLToPath(textDocument.uri);
 }
 
+/**
+ * Edits for the current document from a completion's code actions, with
+ * inserted imports rewritten in the file's Civet import style.
+ */
+function getCompletionImportEdits(service: ResolvedService, sourcePath: string, codeActions: readonly ts.CodeAction[]): TextEdit[] | undefined {
+  const uri = pathToFileURL(sourcePath).toString()
+  const edits: TextEdit[] = []
+
+  for (const action of codeActions) {
+    const edit = convertFileTextChanges(service, action.changes)
+    if (!edit?.changes) return
+    // Completions can only edit the document they're in
+    if (Object.keys(edit.changes).some((key) => key !== uri)) return
+    edits.push(...edit.changes[uri] ?? [])
+  }
+
+  return civetifyImportEdits(service, sourcePath, edits)
+}
+
+/** Rewrite imports inserted into an open Civet document in its import style */
+function civetifyImportEdits(service: ResolvedService, sourcePath: string, edits: TextEdit[]): TextEdit[] {
+  if (sourcePath.match(tsSuffix)) return edits
+
+  const document = documents.get(pathToFileURL(sourcePath).toString())
+  if (!document) return edits
+  const style = getImportStyle(document.getText())
+  const { rewriteCivetImports } = service.getParseOptions()
+
+  return edits.map(({ range, newText }) => ({
+    range,
+    newText: civetifyImports(newText, sourcePath, style, rewriteCivetImports),
+  }))
+}
+
+function getSignatureHelpTriggerReason(context: SignatureHelpContext | undefined): ts.SignatureHelpTriggerReason {
+  if (!context) return { kind: 'invoked' }
+
+  // TypeScript doesn't know about Civet's implicit call trigger
+  const triggerCharacter = context.triggerCharacter === ' '
+    ? undefined
+    : context.triggerCharacter as ts.SignatureHelpRetriggerCharacter | undefined
+
+  if (context.isRetrigger) {
+    return triggerCharacter ? { kind: 'retrigger', triggerCharacter } : { kind: 'retrigger' }
+  }
+  if (context.triggerKind === SignatureHelpTriggerKind.TriggerCharacter && triggerCharacter && triggerCharacter !== ')') {
+    return { kind: 'characterTyped', triggerCharacter }
+  }
+  return { kind: 'invoked' }
+}
+
+// Adapted from https://github.com/microsoft/vscode/blob/main/extensions/typescript-language-features/src/languageFeatures/signatureHelp.ts
+function convertSignatureHelp(info: ts.SignatureHelpItems, context: SignatureHelpContext | undefined): SignatureHelp {
+  let activeSignature = info.selectedItemIndex
+  // Keep the signature the user picked while the call is being edited
+  const previous = context?.activeSignatureHelp
+  if (previous && context?.isRetrigger && previous.signatures.length === info.items.length) {
+    activeSignature = previous.activeSignature ?? activeSignature
+  }
+
+  return {
+    signatures: info.items.map(convertSignature),
+    activeSignature,
+    activeParameter: info.argumentIndex,
+  }
+}
+
+function convertSignature(item: ts.SignatureHelpItem): SignatureInformation {
+  const parameters = item.parameters.map((parameter) => {
+    const documentation = Previewer.plain(parameter.documentation)
+    return {
+      label: Previewer.plain(parameter.displayParts),
+      ...(documentation && {
+        documentation: { kind: MarkupKind.Markdown, value: documentation },
+      }),
+    }
+  })
+
+  const separator = Previewer.plain(item.separatorDisplayParts)
+  const label = Previewer.plain(item.prefixDisplayParts) +
+    parameters.map((parameter) => parameter.label).join(separator) +
+    Previewer.plain(item.suffixDisplayParts)
+
+  const documentation = [
+    Previewer.plain(item.documentation),
+    // Parameter tags are shown with each parameter
+    ...item.tags.filter((tag) => tag.name !== 'param').map(Previewer.getTagDocumentation),
+  ].filter((d) => !!d).join("\n\n")
+
+  return {
+    label,
+    parameters,
+    ...(documentation && {
+      documentation: { kind: MarkupKind.Markdown, value: documentation },
+    }),
+  }
+}
+
 function convertCompletions(completions: ts.CompletionInfo, document: TextDocument, sourcePath: string, position: Position, sourcemapLines?: SourcemapLines): CompletionItem[] {
   // Partial simulation of MyCompletionItem in
   // https://github.com/microsoft/vscode/blob/main/extensions/typescript-language-features/src/languageFeatures/completions.ts
   const { entries } = completions;
+  const rootDir = getWorkspaceRoot(workspaceRoots, sourcePath)?.dir
 
   const items: CompletionItem[] = [];
   for (const entry of entries) {
@@ -919,6 +2118,7 @@ function convertCompletions(completions: ts.CompletionInfo, document: TextDocume
       data: {
         sourcePath, position,
         name: entry.name, source: entry.source, data: entry.data,
+        hasAction: entry.hasAction,
       } satisfies CompletionItemData,
     }
 
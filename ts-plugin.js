@@ -0,0 +1,17 @@
+/**
+@file TypeScript server plugin, so that `.ts` files edited with the stock
+TypeScript server understand imports of `.civet` files.
+
+@example
+```json
+{
+  "compilerOptions": {
+    "plugins": [{ "name": "@danielx/civet/ts-plugin" }]
+  }
+}
+```
+
+tsserver finds plugins without looking at `exports` in package.json,
+so this entry point lives at the root of the package.
+*/
+module.exports = require("./dist/ts-plugin.js")
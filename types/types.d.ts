@@ -113,6 +113,16 @@ declare module "@danielx/civet" {
      * will add to the array all `ParseError`s encountered.
      */
     errors?: ParseError[]
+    /**
+     * Whether to keep going after a syntax error, for editors.
+     * Default is false, which stops at the first syntax error.
+     * If true, each statement that fails to parse (along with any lines
+     * indented under it) is replaced by a placeholder comment, and the rest
+     * of the file is still compiled, with a valid source map.
+     * All the syntax errors end up in `errors`
+     * (or get thrown together if `errors` isn't specified).
+     */
+    recover?: boolean
     /**
      * Number of parallel threads to compile with (Node only).
      * Default is to use the environment variable `CIVET_THREADS`, or 0.
@@ -182,6 +192,59 @@ declare module "@danielx/civet" {
   export function generate(ast: CivetAST, options?: GenerateOptions): string
   export function decode(source: string | Buffer): string
 
+  export type FormatOptions = {
+    filename?: string
+    parseOptions?: ParseOptions
+    /**
+     * Spaces per indentation level.
+     * Default is the `tab` parse option, or 2.
+     */
+    tab?: number
+    /**
+     * Only change whitespace overlapping this range of offsets into the
+     * source, e.g. to format a selection.
+     */
+    range?: [number, number]
+  }
+  /**
+   * Format Civet source code: normalizes indentation, spacing around
+   * operators and runs of blank lines, never changing the compiled code.
+   * Strings, regular expressions, comments and JSX are left as written.
+   * Throws `ParseErrors` if the source doesn't parse.
+   */
+  export function format(source: string, options?: FormatOptions): string
+
+  export type ParseOptionType =
+    | "boolean"
+    | "number"
+    | "string"
+    | "string[]"
+    | "string[] | Record<string, string>"
+  export type ParseOptionSpec = {
+    type: ParseOptionType
+    /** Markdown, one sentence */
+    description: string
+    /** Value when not specified, if it is worth mentioning */
+    default?: boolean | number | string
+  }
+  /**
+   * The parse options Civet understands, by `camelCase` name,
+   * in `"civet"` directives and in the `parseOptions` of config files.
+   */
+  export const parseOptionSpecs: Record<string, ParseOptionSpec>
+  /** `kebab-case` option names mean the same as `camelCase` ones */
+  export function normalizeOptionName(name: string): string
+  /**
+   * Why an option of a `"civet"` directive is invalid, or undefined if it's
+   * fine. `value` is what follows `=`, if anything.
+   */
+  export function checkDirectiveOption(name: string, value?: string): string | undefined
+  /**
+   * Why a value in the `parseOptions` of a config file is invalid,
+   * or undefined if it's fine. Names must be `camelCase` here.
+   */
+  export function checkConfigOption(name: string, value: unknown): string | undefined
+
   export const lib: {
     gatherRecursive(ast: CivetAST, predicate: (node: CivetAST) => boolean): CivetAST[]
     gatherRecursiveAll(ast: CivetAST, predicate: (node: CivetAST) => boolean): CivetAST[]
@@ -194,6 +257,11 @@ declare module "@danielx/civet" {
     parse: typeof parse
     generate: typeof generate
     decode: typeof decode
+    format: typeof format
+    parseOptionSpecs: typeof parseOptionSpecs
+    normalizeOptionName: typeof normalizeOptionName
+    checkDirectiveOption: typeof checkDirectiveOption
+    checkConfigOption: typeof checkConfigOption
     SourceMap: typeof SourceMap
     ParseError: typeof ParseError
     ParseErrors: typeof ParseErrors